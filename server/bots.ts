@@ -0,0 +1,124 @@
+import { randomUUID } from 'crypto';
+import koaBody from 'koa-body';
+import type { Server } from 'boardgame.io/server';
+import type { Ctx, Server as ServerTypes } from 'boardgame.io';
+import type { DalmutiState } from '../src/game/types';
+import { chooseBotAction, getBotDifficulty, BOT_DIFFICULTIES } from '../src/game/ai';
+import type { BotDifficulty, BotSeatData } from '../src/game/ai';
+import type { MatchDispatcher } from './dispatch';
+import { loadLobbyAsOwner } from './lobby';
+import type { RouteCtx } from './lobby';
+
+type Router = ReturnType<typeof Server>['router'];
+
+// Pause before each bot move so humans can follow what happened.
+const BOT_THINK_MS = 900;
+
+const DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: 'Easy',
+  hard: 'Hard',
+};
+
+/** Metadata for a seat taken over by a bot of the given difficulty. */
+export function botSeat(id: number, difficulty: BotDifficulty): ServerTypes.PlayerMetadata {
+  const data: BotSeatData = { bot: difficulty };
+  return {
+    id,
+    name: `Bot ${id + 1} (${DIFFICULTY_LABELS[difficulty]})`,
+    credentials: randomUUID(),
+    data,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bot manager
+// ---------------------------------------------------------------------------
+
+/**
+ * Drives every bot seat on this server. A seat is a bot when its metadata
+ * carries `data.bot`; the bot authenticates with the credentials stored in
+ * that same seat, so its moves are indistinguishable from a human's.
+ *
+ * After any update to a match the manager waits BOT_THINK_MS, re-reads the
+ * state and lets the first bot with something to do make one move. That move
+ * publishes a new update, which schedules the next think — so bots keep
+ * playing until none of them has anything left to do.
+ */
+export class BotManager {
+  private readonly dispatcher: MatchDispatcher;
+  private readonly pending = new Set<string>();
+
+  constructor(dispatcher: MatchDispatcher) {
+    this.dispatcher = dispatcher;
+  }
+
+  /** Schedule a think for `matchID` unless one is already queued. */
+  schedule(matchID: string): void {
+    if (this.pending.has(matchID)) return;
+    this.pending.add(matchID);
+    setTimeout(() => {
+      this.pending.delete(matchID);
+      this.think(matchID).catch((e) => console.error(`Bot error in match ${matchID}:`, e));
+    }, BOT_THINK_MS);
+  }
+
+  private async think(matchID: string): Promise<void> {
+    const { state, metadata } = await this.dispatcher.fetch(matchID);
+    if (!state || !metadata) return;
+
+    for (const seat of Object.values(metadata.players)) {
+      const difficulty = getBotDifficulty(seat);
+      if (!difficulty) continue;
+      const playerID = String(seat.id);
+      const action = chooseBotAction(state.G as DalmutiState, state.ctx as Ctx, playerID, difficulty);
+      if (action) {
+        await this.dispatcher.move(matchID, playerID, action.move, action.args);
+        return;
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Lobby routes
+// ---------------------------------------------------------------------------
+
+/**
+ * Owner-only routes for filling and freeing seats with bots while the match
+ * is still in the lobby phase. Shaped like boardgame.io's own `/leave` route:
+ *
+ *   POST /games/:name/:id/addBot     { playerID, credentials, difficulty }
+ *   POST /games/:name/:id/removeBot  { playerID, credentials, botID }
+ */
+export function registerBotRoutes(router: Router, dispatcher: MatchDispatcher, gameName: string): void {
+  const loadOwnerMetadata = (ctx: RouteCtx) => loadLobbyAsOwner(ctx, dispatcher, 'manage bots');
+
+  router.post(`/games/${gameName}/:id/addBot`, koaBody(), async (ctx) => {
+    const matchID = ctx.params.id;
+    const { difficulty } = ctx.request.body;
+    if (!BOT_DIFFICULTIES.includes(difficulty)) {
+      ctx.throw(400, 'difficulty must be one of ' + BOT_DIFFICULTIES.join(', '));
+    }
+    const metadata = await loadOwnerMetadata(ctx);
+
+    const seat = Object.values(metadata.players).find((p) => !p.name);
+    if (!seat) return ctx.throw(409, 'Match ' + matchID + ' is full');
+
+    metadata.players[seat.id] = botSeat(seat.id, difficulty);
+    await dispatcher.setMetadata(matchID, metadata);
+    ctx.body = { playerID: String(seat.id) };
+  });
+
+  router.post(`/games/${gameName}/:id/removeBot`, koaBody(), async (ctx) => {
+    const matchID = ctx.params.id;
+    const { botID } = ctx.request.body;
+    const metadata = await loadOwnerMetadata(ctx);
+
+    const seat = metadata.players[Number(botID)];
+    if (!seat || !getBotDifficulty(seat)) return ctx.throw(404, 'Bot ' + botID + ' not found');
+
+    metadata.players[seat.id] = { id: seat.id };
+    await dispatcher.setMetadata(matchID, metadata);
+    ctx.body = {};
+  });
+}
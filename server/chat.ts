@@ -0,0 +1,46 @@
+import { isValidChatPayload } from '../src/game/chat';
+import type { TransportPayload } from './pubsub';
+
+// Each seat may send at most CHAT_BURST messages in any CHAT_WINDOW_MS.
+const CHAT_BURST = 5;
+const CHAT_WINDOW_MS = 10_000;
+
+/**
+ * Server-side flood guard for table chat, installed as a MatchPubSub filter.
+ * The Master has already checked the sender's credentials by the time a chat
+ * message is published; this drops malformed or over-long messages and any
+ * message beyond a seat's rate limit before it reaches the other sockets.
+ */
+export class ChatGuard {
+  // Recent send times per "matchID:playerID", oldest first. A key is
+  // dropped once its window is empty, so the map only holds recent senders.
+  private readonly sent = new Map<string, number[]>();
+
+  /** Pub-sub filter: false drops the payload. Non-chat payloads always pass. */
+  allow(matchID: string, payload: TransportPayload): boolean {
+    if (payload.type !== 'chat') return true;
+    const message = payload.args[1];
+    if (!isValidChatPayload(message?.payload)) return false;
+
+    const key = `${matchID}:${message.sender}`;
+    const now = Date.now();
+    const recent = (this.sent.get(key) ?? []).filter((time) => now - time < CHAT_WINDOW_MS);
+    if (recent.length >= CHAT_BURST) {
+      this.sent.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.sent.set(key, recent);
+    this.expire(key);
+    return true;
+  }
+
+  /** Once a send has aged out of the window, forget the key if nothing newer is left. */
+  private expire(key: string): void {
+    setTimeout(() => {
+      const recent = (this.sent.get(key) ?? []).filter((time) => Date.now() - time < CHAT_WINDOW_MS);
+      if (recent.length > 0) this.sent.set(key, recent);
+      else this.sent.delete(key);
+    }, CHAT_WINDOW_MS).unref();
+  }
+}
@@ -0,0 +1,113 @@
+import { randomUUID } from 'crypto';
+import { Master } from 'boardgame.io/master';
+import { createMatch } from 'boardgame.io/internal';
+import type { Game, LogEntry, State, StorageAPI, Server as ServerTypes } from 'boardgame.io';
+import type { Server } from 'boardgame.io/server';
+import type { MatchPubSub, TransportPayload } from './pubsub';
+
+type BoardgameServer = ReturnType<typeof Server>;
+
+interface DispatcherOpts {
+  game: Game;
+  server: BoardgameServer;
+  pubSub: MatchPubSub<TransportPayload>;
+}
+
+/**
+ * Server-side access to live matches.
+ *
+ * Moves made here go through the same Master, credential check and per-match
+ * queue as moves arriving over a socket, so they can never race a client's
+ * move. Resulting updates are broadcast to connected clients through the
+ * shared pub-sub.
+ */
+export class MatchDispatcher {
+  private readonly game: Game;
+  private readonly server: BoardgameServer;
+  private readonly pubSub: MatchPubSub<TransportPayload>;
+
+  constructor({ game, server, pubSub }: DispatcherOpts) {
+    this.game = game;
+    this.server = server;
+    this.pubSub = pubSub;
+  }
+
+  // The default in-memory db is synchronous and the file db is async; awaiting
+  // works for both, so treat the storage as async everywhere.
+  private get db(): StorageAPI.Async {
+    return this.server.db as StorageAPI.Async;
+  }
+
+  private master(matchID: string): Master {
+    return new Master(this.game, this.server.db, {
+      send: () => {},
+      sendAll: (payload) => this.pubSub.publishToMatch(matchID, payload),
+    }, this.server.auth);
+  }
+
+  /** Fetch the authoritative state and metadata for a match. */
+  async fetch(matchID: string): Promise<{ state?: State; metadata?: ServerTypes.MatchData }> {
+    return this.db.fetch(matchID, { state: true, metadata: true });
+  }
+
+  /** Fetch a match's full history: its initial state and every log entry since. */
+  async fetchHistory(matchID: string): Promise<{
+    state?: State;
+    initialState?: State;
+    log?: LogEntry[];
+    metadata?: ServerTypes.MatchData;
+  }> {
+    return this.db.fetch(matchID, { state: true, initialState: true, log: true, metadata: true });
+  }
+
+  /**
+   * Create an unlisted match directly in storage, bypassing the Lobby API.
+   * Seats start empty; fill them with setMetadata. Returns the new match ID.
+   */
+  async createMatch(numPlayers: number, setupData?: unknown): Promise<string> {
+    const match = createMatch({ game: this.game, numPlayers, setupData, unlisted: true });
+    if ('setupDataError' in match) throw new Error(match.setupDataError);
+    const matchID = randomUUID();
+    await this.db.createMatch(matchID, match);
+    return matchID;
+  }
+
+  /** List the IDs of every stored match for this game. */
+  async listMatches(): Promise<string[]> {
+    return this.db.listMatches({ gameName: this.game.name });
+  }
+
+  /**
+   * Make a move on behalf of `playerID`, authenticating with the credentials
+   * stored in that seat's metadata. Queued behind any in-flight client moves.
+   */
+  async move(matchID: string, playerID: string, type: string, args: unknown[] = []): Promise<void> {
+    await this.server.transport.getMatchQueue(matchID).add(async () => {
+      const { state, metadata } = await this.fetch(matchID);
+      if (!state || !metadata) return;
+      const credentials = metadata.players[Number(playerID)]?.credentials ?? '';
+      await this.master(matchID).onUpdate(
+        { type: 'MAKE_MOVE', payload: { type, args, playerID, credentials } },
+        state._stateID,
+        matchID,
+        playerID,
+      );
+    });
+  }
+
+  /** Persist match metadata and push the public part to connected clients. */
+  async setMetadata(matchID: string, metadata: ServerTypes.MatchData): Promise<void> {
+    await this.db.setMetadata(matchID, metadata);
+    const filtered = Object.values(metadata.players).map(({ credentials: _, ...player }) => player);
+    this.pubSub.publishToMatch(matchID, { type: 'matchData', args: [matchID, filtered] });
+  }
+
+  /** Check a caller's credentials against a seat in the match metadata. */
+  async authenticate(
+    metadata: ServerTypes.MatchData,
+    playerID: string,
+    credentials: string | undefined,
+  ): Promise<boolean> {
+    return this.server.auth.authenticateCredentials({ playerID, credentials, metadata });
+  }
+}
@@ -1,7 +1,31 @@
 import { Server, Origins } from 'boardgame.io/server';
 import { DalmutiGame } from '../src/game/DalmutiGame';
+import { MatchPubSub, getPayloadState } from './pubsub';
+import type { TransportPayload } from './pubsub';
+import { MatchDispatcher } from './dispatch';
+import { BotManager, registerBotRoutes } from './bots';
+import { registerLobbyRoutes } from './lobby';
+import { DeadlineTimer, pauseVoteRule, roundOverRule, turnRule } from './timers';
+import { registerReplayRoute } from './replay';
+import { registerPasswordRoutes } from './passwords';
+import { createStorage } from './storage';
+import { Matchmaker, registerMatchmakingRoutes } from './matchmaking';
+import { ChatGuard } from './chat';
+import { AwayTracker, registerSeatRoutes } from './seats';
+import { GuardedSocketIO } from './sockets';
 
 const PORT = Number(process.env.PORT ?? 8000);
+// How long a quick-play queue may sit without a new player before bots fill
+// the empty seats.
+const QUICK_PLAY_STALL_SECONDS = Number(process.env.QUICK_PLAY_STALL_SECONDS ?? 30);
+// How long a player may stay disconnected from a game in progress before the
+// others can vote to hand their seat to a bot.
+const REPLACE_AFTER_SECONDS = Number(process.env.REPLACE_AFTER_SECONDS ?? 60);
+
+// Shared with the socket transport so server-side services see every update.
+const pubSub = new MatchPubSub<TransportPayload>();
+const chatGuard = new ChatGuard();
+pubSub.addFilter((matchID, payload) => chatGuard.allow(matchID, payload));
 
 const server = Server({
   games: [DalmutiGame],
@@ -10,7 +34,49 @@ const server = Server({
     // Add your production domain here when deploying:
     'https://dalmuti-web.vercel.app',
   ],
+  transport: new GuardedSocketIO({ pubSub }),
+  // Matches are written to disk by default so they survive restarts and
+  // redeploys; see server/storage.ts for the STORAGE / DATA_DIR settings.
+  db: createStorage(),
+});
+
+const dispatcher = new MatchDispatcher({ game: DalmutiGame, server, pubSub });
+
+// Server-side bot players and the round-over, turn and pause vote countdowns
+// all react to every update to a match; the away tracker follows who is
+// connected.
+const bots = new BotManager(dispatcher);
+const timers = [roundOverRule, turnRule, pauseVoteRule].map((rule) => new DeadlineTimer(dispatcher, rule));
+const away = new AwayTracker(dispatcher, REPLACE_AFTER_SECONDS * 1000);
+pubSub.onPublish((matchID, payload) => {
+  bots.schedule(matchID);
+  if (payload.type === 'matchData') away.update(matchID, payload.args[1]);
+  const state = getPayloadState(payload);
+  if (state) timers.forEach((timer) => timer.update(matchID, state));
 });
+// Pick stored matches back up after a restart: bots resume thinking and any
+// pending turn, round-over or pause vote deadline is re-armed (firing at
+// once if it passed while the server was down), as are the away timers.
+// Clients reconnect on their own.
+async function resumeMatches(): Promise<void> {
+  for (const matchID of await dispatcher.listMatches()) {
+    const { state, metadata } = await dispatcher.fetch(matchID);
+    if (!state || state.ctx.gameover !== undefined) continue;
+    bots.schedule(matchID);
+    timers.forEach((timer) => timer.update(matchID, state));
+    if (metadata) away.update(matchID, Object.values(metadata.players));
+  }
+}
+
+registerBotRoutes(server.router, dispatcher, DalmutiGame.name!);
+registerLobbyRoutes(server.router, dispatcher, DalmutiGame.name!);
+registerReplayRoute(server.router, dispatcher, DalmutiGame.name!);
+// Must be registered before server.run adds the Lobby API routes they wrap.
+registerPasswordRoutes(server.router, dispatcher, DalmutiGame.name!);
+registerSeatRoutes(server.router, dispatcher, away, DalmutiGame.name!);
+
+const matchmaker = new Matchmaker(dispatcher, QUICK_PLAY_STALL_SECONDS * 1000);
+registerMatchmakingRoutes(server.router, matchmaker, DalmutiGame.name!);
 
 // Simple health-check endpoint so UptimeRobot can keep the Render instance warm.
 server.router.get('/health', (ctx) => {
@@ -21,4 +87,5 @@ server.router.get('/health', (ctx) => {
 server.run(PORT, () => {
   console.log(`boardgame.io server listening on http://localhost:${PORT}`);
   console.log(`Lobby API: http://localhost:${PORT}/games/great-dalmuti`);
+  resumeMatches().catch((e) => console.error('Failed to resume matches:', e));
 });
@@ -0,0 +1,98 @@
+import koaBody from 'koa-body';
+import type { Server } from 'boardgame.io/server';
+import type { Server as ServerTypes } from 'boardgame.io';
+import type { DalmutiState } from '../src/game/types';
+import { getBotDifficulty } from '../src/game/ai';
+import type { OwnedMatchData } from '../src/game/owner';
+import type { MatchDispatcher } from './dispatch';
+
+type Router = ReturnType<typeof Server>['router'];
+export type RouteCtx = Parameters<Parameters<Router['post']>[2]>[0];
+
+/**
+ * Load a match for one of the owner's waiting-room routes: the caller must be
+ * the authenticated owner (G.ownerID) and the game must not have started.
+ * `action` completes the 403 message, e.g. "manage bots".
+ */
+export async function loadLobbyAsOwner(ctx: RouteCtx, dispatcher: MatchDispatcher, action: string) {
+  const matchID = ctx.params.id;
+  const { playerID, credentials } = ctx.request.body;
+  const { state, metadata } = await dispatcher.fetch(matchID);
+  if (!state || !metadata) return ctx.throw(404, 'Match ' + matchID + ' not found');
+  if (playerID !== (state.G as DalmutiState).ownerID) ctx.throw(403, 'Only the owner can ' + action);
+  if (!(await dispatcher.authenticate(metadata, playerID, credentials))) {
+    ctx.throw(403, 'Invalid credentials');
+  }
+  if (state.ctx.phase !== 'lobby') ctx.throw(409, 'The game has already started');
+  return metadata;
+}
+
+/** A seat a human has joined: the only kind that may own the match. */
+function isJoinedHuman(seat: ServerTypes.PlayerMetadata | undefined): seat is ServerTypes.PlayerMetadata {
+  return !!seat?.name && !!seat.credentials && !getBotDifficulty(seat);
+}
+
+/**
+ * Make `newOwnerID` the owner with the server-only transferOwnership move,
+ * sent as the new owner, then mirror G.ownerID into the match metadata for
+ * the lobby and match browser (src/game/owner.ts).
+ */
+async function handOver(dispatcher: MatchDispatcher, matchID: string, newOwnerID: string): Promise<void> {
+  await dispatcher.move(matchID, newOwnerID, 'transferOwnership', [newOwnerID]);
+  const { state, metadata } = await dispatcher.fetch(matchID);
+  if (!state || !metadata) return;
+  const owned: ServerTypes.MatchData & OwnedMatchData = { ...metadata, ownerID: (state.G as DalmutiState).ownerID };
+  await dispatcher.setMetadata(matchID, owned);
+}
+
+/**
+ * Owner-only waiting-room routes, shaped like the bot routes. Kicking frees
+ * an AFK joiner's seat for someone else, and their credentials stop working
+ * at once; ownership can only go to another joined human.
+ *
+ *   POST /games/:name/:id/kick               { playerID, credentials, targetID }
+ *   POST /games/:name/:id/transferOwnership  { playerID, credentials, targetID }
+ *
+ * Also wraps the Lobby API's /leave route: an owner who leaves the waiting
+ * room hands it to the first joined human left, so someone can still start
+ * the game.
+ */
+export function registerLobbyRoutes(router: Router, dispatcher: MatchDispatcher, gameName: string): void {
+  router.post(`/games/${gameName}/:id/kick`, koaBody(), async (ctx) => {
+    const matchID = ctx.params.id;
+    const { playerID, targetID } = ctx.request.body;
+    const metadata = await loadLobbyAsOwner(ctx, dispatcher, 'kick players');
+
+    const seat = metadata.players[Number(targetID)];
+    if (!seat?.name) return ctx.throw(404, 'Player ' + targetID + ' not found');
+    if (String(targetID) === playerID) ctx.throw(409, 'The owner cannot kick themselves');
+
+    metadata.players[seat.id] = { id: seat.id };
+    await dispatcher.setMetadata(matchID, metadata);
+    ctx.body = {};
+  });
+
+  router.post(`/games/${gameName}/:id/transferOwnership`, koaBody(), async (ctx) => {
+    const matchID = ctx.params.id;
+    const { playerID, targetID } = ctx.request.body;
+    const metadata = await loadLobbyAsOwner(ctx, dispatcher, 'hand over ownership');
+
+    const seat = metadata.players[Number(targetID)];
+    if (!isJoinedHuman(seat) || String(seat.id) === playerID) {
+      return ctx.throw(409, 'Player ' + targetID + ' cannot own the match');
+    }
+    await handOver(dispatcher, matchID, String(seat.id));
+    ctx.body = {};
+  });
+
+  router.post(`/games/${gameName}/:id/leave`, async (ctx, next) => {
+    await next();
+    const matchID = ctx.params.id;
+    const { state, metadata } = await dispatcher.fetch(matchID);
+    if (!state || !metadata || state.ctx.phase !== 'lobby') return;
+    if (isJoinedHuman(metadata.players[Number((state.G as DalmutiState).ownerID)])) return;
+
+    const heir = Object.values(metadata.players).find(isJoinedHuman);
+    if (heir) await handOver(dispatcher, matchID, String(heir.id));
+  });
+}
@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import koaBody from 'koa-body';
+import type { Server } from 'boardgame.io/server';
+import type { BotDifficulty } from '../src/game/ai';
+import type { MatchDispatcher } from './dispatch';
+import { botSeat } from './bots';
+
+type Router = ReturnType<typeof Server>['router'];
+
+// Table sizes a player can queue for (the game's player count limits)
+const MIN_TABLE = 4;
+const MAX_TABLE = 8;
+
+// Clients poll every couple of seconds; a ticket not polled for this long
+// belongs to a closed tab and is dropped from the queue.
+const TICKET_TIMEOUT_MS = 15_000;
+
+// Seats left empty after a stall go to bots of this difficulty.
+const FILL_DIFFICULTY: BotDifficulty = 'easy';
+
+/** A seat in a match the matchmaker created, as the client needs it to play. */
+export interface QuickPlaySeat {
+  matchID: string;
+  playerID: string;
+  credentials: string;
+  numPlayers: number;
+}
+
+export type QuickPlayStatus =
+  | { status: 'waiting'; numPlayers: number; queued: number; botFillAt: number }
+  | ({ status: 'matched' } & QuickPlaySeat);
+
+interface Ticket {
+  id: string;
+  playerName: string;
+  numPlayers: number;
+  lastSeen: number;
+  /** True while a match is being created for this ticket. */
+  seating?: boolean;
+  /** Set once the ticket has been given a seat. */
+  seat?: QuickPlaySeat;
+}
+
+/**
+ * Quick-play queue. Players queue for a table size; as soon as enough of them
+ * are waiting, the matchmaker creates a match and seats them in queue order
+ * (the first becomes the owner, seat 0). If nobody new joins a size's queue
+ * for `stallMs`, whoever is waiting is seated and bots take the other seats.
+ *
+ * Queues live in memory only — a restart simply empties them.
+ */
+export class Matchmaker {
+  private readonly dispatcher: MatchDispatcher;
+  private readonly stallMs: number;
+  private readonly tickets = new Map<string, Ticket>();
+  private readonly stallTimers = new Map<number, { at: number; timer: ReturnType<typeof setTimeout> }>();
+
+  constructor(dispatcher: MatchDispatcher, stallMs: number) {
+    this.dispatcher = dispatcher;
+    this.stallMs = stallMs;
+  }
+
+  /** Put a player in the queue for a table of `numPlayers`. */
+  join(playerName: string, numPlayers: number): string {
+    const ticket: Ticket = { id: randomUUID(), playerName, numPlayers, lastSeen: Date.now() };
+    this.tickets.set(ticket.id, ticket);
+
+    const waiting = this.waiting(numPlayers);
+    if (waiting.length >= numPlayers) {
+      this.seat(waiting.slice(0, numPlayers), numPlayers);
+    }
+    this.armStallTimer(numPlayers);
+    return ticket.id;
+  }
+
+  /** Where a ticket stands, or undefined for an unknown or expired ticket. */
+  poll(ticketID: string): QuickPlayStatus | undefined {
+    const ticket = this.tickets.get(ticketID);
+    if (!ticket) return undefined;
+    ticket.lastSeen = Date.now();
+    if (ticket.seat) return { status: 'matched', ...ticket.seat };
+
+    return {
+      status: 'waiting',
+      numPlayers: ticket.numPlayers,
+      queued: this.waiting(ticket.numPlayers).length,
+      botFillAt: this.stallTimers.get(ticket.numPlayers)?.at ?? Date.now(),
+    };
+  }
+
+  /** Take a ticket out of the queue. */
+  leave(ticketID: string): void {
+    const ticket = this.tickets.get(ticketID);
+    if (!ticket) return;
+    this.tickets.delete(ticketID);
+    if (this.waiting(ticket.numPlayers).length === 0) this.clearStallTimer(ticket.numPlayers);
+  }
+
+  /** Live, unseated tickets for one table size in queue order; drops stale ones. */
+  private waiting(numPlayers: number): Ticket[] {
+    const cutoff = Date.now() - TICKET_TIMEOUT_MS;
+    const waiting: Ticket[] = [];
+    for (const ticket of this.tickets.values()) {
+      if (ticket.lastSeen < cutoff) {
+        this.tickets.delete(ticket.id);
+      } else if (!ticket.seat && !ticket.seating && ticket.numPlayers === numPlayers) {
+        waiting.push(ticket);
+      }
+    }
+    return waiting;
+  }
+
+  private clearStallTimer(numPlayers: number): void {
+    const existing = this.stallTimers.get(numPlayers);
+    if (existing) clearTimeout(existing.timer);
+    this.stallTimers.delete(numPlayers);
+  }
+
+  /** Restart a size's stall countdown, or clear it when its queue is empty. */
+  private armStallTimer(numPlayers: number): void {
+    this.clearStallTimer(numPlayers);
+    if (this.waiting(numPlayers).length === 0) return;
+
+    const timer = setTimeout(() => {
+      this.stallTimers.delete(numPlayers);
+      const waiting = this.waiting(numPlayers);
+      if (waiting.length > 0) this.seat(waiting.slice(0, numPlayers), numPlayers);
+    }, this.stallMs);
+    this.stallTimers.set(numPlayers, { at: Date.now() + this.stallMs, timer });
+  }
+
+  /**
+   * Create a match for `tickets` and seat them, filling any remaining seats
+   * with bots. Tickets are claimed synchronously so no other fill can take
+   * them while the match is being created.
+   */
+  private seat(tickets: Ticket[], numPlayers: number): void {
+    tickets.forEach((ticket) => { ticket.seating = true; });
+
+    this.createSeatedMatch(tickets, numPlayers).catch((e) => {
+      console.error('Quick play failed to create a match:', e);
+      // Put everyone back in the queue to try again
+      tickets.forEach((ticket) => { ticket.seating = false; });
+      this.armStallTimer(numPlayers);
+    });
+  }
+
+  private async createSeatedMatch(tickets: Ticket[], numPlayers: number): Promise<void> {
+    const matchID = await this.dispatcher.createMatch(numPlayers);
+    const { metadata } = await this.dispatcher.fetch(matchID);
+    if (!metadata) throw new Error('Match ' + matchID + ' vanished after creation');
+
+    for (let id = 0; id < numPlayers; id++) {
+      const ticket = tickets[id];
+      metadata.players[id] = ticket
+        ? { id, name: ticket.playerName, credentials: randomUUID() }
+        : botSeat(id, FILL_DIFFICULTY);
+    }
+    await this.dispatcher.setMetadata(matchID, metadata);
+
+    tickets.forEach((ticket, id) => {
+      ticket.seating = false;
+      ticket.seat = {
+        matchID,
+        playerID: String(id),
+        credentials: metadata.players[id].credentials!,
+        numPlayers,
+      };
+    });
+  }
+}
+
+/**
+ * Quick-play routes. A ticket ID is all a queued player holds until they are
+ * seated, after which polling returns the seat's credentials once more:
+ *
+ *   POST /games/:name/quickplay               { playerName, numPlayers } → { ticketID }
+ *   GET  /games/:name/quickplay/:ticket       → QuickPlayStatus
+ *   POST /games/:name/quickplay/:ticket/leave
+ */
+export function registerMatchmakingRoutes(router: Router, matchmaker: Matchmaker, gameName: string): void {
+  router.post(`/games/${gameName}/quickplay`, koaBody(), async (ctx) => {
+    const { playerName, numPlayers } = ctx.request.body;
+    if (typeof playerName !== 'string' || !playerName.trim()) ctx.throw(400, 'playerName is required');
+    if (!Number.isInteger(numPlayers) || numPlayers < MIN_TABLE || numPlayers > MAX_TABLE) {
+      ctx.throw(400, `numPlayers must be from ${MIN_TABLE} to ${MAX_TABLE}`);
+    }
+    ctx.body = { ticketID: matchmaker.join(playerName.trim().slice(0, 24), numPlayers) };
+  });
+
+  router.get(`/games/${gameName}/quickplay/:ticket`, async (ctx) => {
+    const status = matchmaker.poll(ctx.params.ticket);
+    if (!status) return ctx.throw(404, 'Ticket ' + ctx.params.ticket + ' not found');
+    ctx.body = status;
+  });
+
+  router.post(`/games/${gameName}/quickplay/:ticket/leave`, async (ctx) => {
+    matchmaker.leave(ctx.params.ticket);
+    ctx.body = {};
+  });
+}
@@ -0,0 +1,117 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { Server as ServerTypes } from 'boardgame.io';
+import type { Server } from 'boardgame.io/server';
+import { isStandIn } from '../src/game/seats';
+import type { TakeoverSeatData } from '../src/game/seats';
+import type { MatchDispatcher } from './dispatch';
+import type { RouteCtx } from './lobby';
+
+type Router = ReturnType<typeof Server>['router'];
+
+// The password travels in a header so the Lobby API's own routes can parse
+// the request body as usual. Sent by src/client/api.ts.
+const PASSWORD_HEADER = 'x-match-password';
+
+/** A salted scrypt hash, kept in the match metadata next to the seats. */
+export interface PasswordHash {
+  salt: string;
+  hash: string;
+}
+
+type ProtectedMatchData = ServerTypes.MatchData & { password?: PasswordHash };
+
+export function hashPassword(password: string, salt = randomBytes(16).toString('hex')): PasswordHash {
+  return { salt, hash: scryptSync(password, salt, 32).toString('hex') };
+}
+
+export function checkPassword(password: string, stored: PasswordHash): boolean {
+  const { hash } = hashPassword(password, stored.salt);
+  return timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(stored.hash, 'hex'));
+}
+
+/**
+ * Reject (403) a request without the right X-Match-Password header when the
+ * match has a password. Used by /join and by /claim for newcomers.
+ */
+export function requireMatchPassword(ctx: RouteCtx, metadata: ServerTypes.MatchData | undefined): void {
+  const stored = (metadata as ProtectedMatchData | undefined)?.password;
+  if (!stored) return;
+  const password = ctx.get(PASSWORD_HEADER);
+  if (!password) ctx.throw(403, 'This match needs a password');
+  if (!checkPassword(password, stored)) ctx.throw(403, 'Wrong password');
+}
+
+/**
+ * Whether a socket that syncs without a seat may watch the match, given the
+ * secret it sent in place of credentials. Anyone may watch an open match; a
+ * password-protected one needs its password, or the old credentials of an
+ * away player whose seat a bot stands in for (so they can claim it back).
+ */
+export function maySpectate(metadata: ServerTypes.MatchData | undefined, secret: unknown): boolean {
+  const stored = (metadata as ProtectedMatchData | undefined)?.password;
+  if (!stored) return true;
+  if (typeof secret !== 'string' || !secret) return false;
+  if (checkPassword(secret, stored)) return true;
+  return Object.values(metadata!.players).some((seat) => {
+    const { returnKey } = (seat.data ?? {}) as TakeoverSeatData;
+    return isStandIn(seat) && returnKey !== undefined && checkPassword(secret, returnKey);
+  });
+}
+
+/** Swap the stored hash for a flag the lobby can show. */
+function hidePassword(match: { password?: PasswordHash }): object {
+  const { password, ...rest } = match;
+  return { ...rest, hasPassword: password !== undefined };
+}
+
+/**
+ * Password protection for private matches. These handlers are registered
+ * before boardgame.io adds its Lobby API routes in `server.run`, so each one
+ * runs first for the same path and hands over with `next()`:
+ *
+ *   POST /games/:name/create    stores the X-Match-Password header, if any
+ *   POST /games/:name/:id/join  rejects a missing or wrong password (403)
+ *   POST /games/:name/:id/watch checks the password before a spectator
+ *                               connects (the socket sync is checked again
+ *                               with maySpectate, in server/sockets.ts)
+ *   GET  /games/:name[/:id]     strip the hash from the match listings
+ *
+ * The password never reaches setupData, so it stays out of G.
+ */
+export function registerPasswordRoutes(router: Router, dispatcher: MatchDispatcher, gameName: string): void {
+  router.post(`/games/${gameName}/create`, async (ctx, next) => {
+    await next();
+    const password = ctx.get(PASSWORD_HEADER);
+    const { matchID } = ctx.body as { matchID?: string };
+    if (!password || !matchID) return;
+
+    const { metadata } = await dispatcher.fetch(matchID);
+    if (!metadata) return;
+    const protectedMetadata: ProtectedMatchData = { ...metadata, password: hashPassword(password) };
+    await dispatcher.setMetadata(matchID, protectedMetadata);
+  });
+
+  router.post(`/games/${gameName}/:id/join`, async (ctx, next) => {
+    const { metadata } = await dispatcher.fetch(ctx.params.id);
+    requireMatchPassword(ctx, metadata);
+    await next();
+  });
+
+  router.post(`/games/${gameName}/:id/watch`, async (ctx) => {
+    const { metadata } = await dispatcher.fetch(ctx.params.id);
+    if (!metadata) return ctx.throw(404, 'Match ' + ctx.params.id + ' not found');
+    requireMatchPassword(ctx, metadata);
+    ctx.body = {};
+  });
+
+  router.get(`/games/${gameName}`, async (ctx, next) => {
+    await next();
+    const body = ctx.body as { matches?: ProtectedMatchData[] } | undefined;
+    if (body?.matches) ctx.body = { ...body, matches: body.matches.map(hidePassword) };
+  });
+
+  router.get(`/games/${gameName}/:id`, async (ctx, next) => {
+    await next();
+    if (ctx.body) ctx.body = hidePassword(ctx.body as ProtectedMatchData);
+  });
+}
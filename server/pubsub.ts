@@ -0,0 +1,73 @@
+import type { State } from 'boardgame.io';
+import type { GenericPubSub, SocketIO } from 'boardgame.io/server';
+
+type Callback<T> = (payload: T) => void;
+
+const CHANNEL_PREFIX = 'MATCH-';
+
+/**
+ * In-memory pub-sub for the socket.io transport, equivalent to boardgame.io's
+ * built-in one but with a hook for server-side listeners.
+ *
+ * Every state update, metadata change and chat message for a match is
+ * published here (channel "MATCH-{matchID}"), whether it came from a client
+ * socket or from our own server-side dispatcher. Bots and schedulers subscribe
+ * through onPublish to react to any change without polling the database, and
+ * filters added with addFilter can drop a payload before anyone sees it.
+ */
+export class MatchPubSub<T> implements GenericPubSub<T> {
+  private callbacks = new Map<string, Callback<T>[]>();
+  private listeners: ((matchID: string, payload: T) => void)[] = [];
+  private filters: ((matchID: string, payload: T) => boolean)[] = [];
+
+  publish(channelId: string, payload: T): void {
+    const matchID = channelId.startsWith(CHANNEL_PREFIX) ? channelId.slice(CHANNEL_PREFIX.length) : null;
+    if (matchID !== null && !this.filters.every((filter) => filter(matchID, payload))) return;
+
+    for (const callback of this.callbacks.get(channelId) ?? []) {
+      callback(payload);
+    }
+    if (matchID !== null) {
+      for (const listener of this.listeners) listener(matchID, payload);
+    }
+  }
+
+  subscribe(channelId: string, callback: Callback<T>): void {
+    this.callbacks.set(channelId, [...(this.callbacks.get(channelId) ?? []), callback]);
+  }
+
+  unsubscribeAll(channelId: string): void {
+    this.callbacks.delete(channelId);
+  }
+
+  /** Publish to every socket connected to `matchID`. */
+  publishToMatch(matchID: string, payload: T): void {
+    this.publish(CHANNEL_PREFIX + matchID, payload);
+  }
+
+  /** Register a filter for match payloads; returning false drops the payload. */
+  addFilter(filter: (matchID: string, payload: T) => boolean): void {
+    this.filters.push(filter);
+  }
+
+  /** Register a server-side listener for every payload published to any match. */
+  onPublish(listener: (matchID: string, payload: T) => void): void {
+    this.listeners.push(listener);
+  }
+}
+
+/** Payload type the socket.io transport publishes (boardgame.io's IntermediateTransportData). */
+export type TransportPayload = NonNullable<
+  NonNullable<ConstructorParameters<typeof SocketIO>[0]>['pubSub']
+> extends GenericPubSub<infer T> ? T : never;
+
+/**
+ * The full match state carried by an update or patch payload, if any.
+ * Listeners must read state from here rather than the db: the Master
+ * publishes before it has written the new state to storage.
+ */
+export function getPayloadState(payload: TransportPayload): State | undefined {
+  if (payload.type === 'update') return payload.args[1];
+  if (payload.type === 'patch') return payload.args[3];
+  return undefined;
+}
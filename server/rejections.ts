@@ -0,0 +1,57 @@
+import { randomUUID } from 'crypto';
+import { SocketIO } from 'boardgame.io/server';
+import type { ChatMessage, StorageAPI } from 'boardgame.io';
+import { explainRejection } from '../src/game/errors';
+import type { DalmutiState } from '../src/game/types';
+
+type App = Parameters<SocketIO['init']>[0];
+type Game = Parameters<SocketIO['init']>[1][number];
+
+/**
+ * The socket.io transport, plus a reason code for every move it turns down.
+ *
+ * boardgame.io's Master drops an invalid or out-of-turn move quietly. Each
+ * update from a socket is followed, in the same per-match queue, by a check:
+ * if the state did not move on from the stateID the client sent, the move
+ * was rejected, and the unchanged state is the one it was tried against. The
+ * MoveRejection goes back to that socket alone, as a chat message the client
+ * keeps out of the table chat (see src/game/errors.ts).
+ */
+export class RejectionReportingSocketIO extends SocketIO {
+  init(app: App, games: Game[], origins?: Parameters<SocketIO['init']>[2]): void {
+    super.init(app, games, origins);
+    for (const game of games) {
+      // Registered after the transport's own listeners, so each check is
+      // queued right behind the move it follows.
+      app._io!.of(game.name!).on('connection', (socket) => {
+        socket.on('update', (action, stateID: number, matchID: string, playerID: string) => {
+          this.getMatchQueue(matchID)
+            .add(() => this.report(app.context.db as StorageAPI.Async, socket, action, stateID, matchID, playerID))
+            .catch((e) => console.error(`Rejection report error in match ${matchID}:`, e));
+        });
+      });
+    }
+  }
+
+  private async report(
+    db: StorageAPI.Async,
+    socket: { id: string; emit: (event: string, ...args: unknown[]) => void },
+    action: { type?: string; payload?: { type?: string; args?: unknown } },
+    stateID: number,
+    matchID: string,
+    playerID: string,
+  ): Promise<void> {
+    if (action?.type !== 'MAKE_MOVE' || typeof action.payload?.type !== 'string') return;
+    // Only sockets that synced with valid credentials for this seat
+    const client = this.clientInfo.get(socket.id);
+    if (!client || client.matchID !== matchID || client.playerID !== playerID) return;
+
+    const { state } = await db.fetch(matchID, { state: true });
+    if (!state || state._stateID !== stateID || state.ctx.gameover !== undefined) return;
+
+    const args = Array.isArray(action.payload.args) ? action.payload.args : [];
+    const rejection = explainRejection(state.G as DalmutiState, state.ctx, playerID, action.payload.type, args);
+    const message: ChatMessage = { id: randomUUID(), sender: playerID, payload: rejection };
+    socket.emit('chat', matchID, message);
+  }
+}
@@ -0,0 +1,49 @@
+import type { Server } from 'boardgame.io/server';
+import { REPLAY_VERSION } from '../src/game/replay';
+import type { MatchReplay, ReplayMove } from '../src/game/replay';
+import type { DalmutiSetupData } from '../src/game/types';
+import type { MatchDispatcher } from './dispatch';
+
+type Router = ReturnType<typeof Server>['router'];
+
+/**
+ * Replay export, shaped like the bot routes:
+ *
+ *   POST /games/:name/:id/replay
+ *
+ * Only finished matches can be exported, by anyone. The seed lets a replay
+ * reconstruct every hand, so a match in progress is never exported: even a
+ * seated player would learn their opponents' cards.
+ */
+export function registerReplayRoute(router: Router, dispatcher: MatchDispatcher, gameName: string): void {
+  router.post(`/games/${gameName}/:id/replay`, async (ctx) => {
+    const matchID = ctx.params.id;
+    const { state, initialState, log, metadata } = await dispatcher.fetchHistory(matchID);
+    if (!state || !initialState || !metadata) return ctx.throw(404, 'Match ' + matchID + ' not found');
+
+    if (state.ctx.gameover === undefined) ctx.throw(403, 'A match can only be exported once it is over');
+
+    // Moves made by players (and bots or timers on their behalf); automatic
+    // entries come from the game's own flow and replay by themselves.
+    const moves: ReplayMove[] = (log ?? [])
+      .filter((entry) => entry.action.type === 'MAKE_MOVE' && !entry.automatic)
+      .map(({ action }) => ({
+        move: action.payload.type,
+        args: action.payload.args ?? [],
+        playerID: String(action.payload.playerID),
+      }));
+
+    const replay: MatchReplay = {
+      version: REPLAY_VERSION,
+      game: gameName,
+      matchID,
+      exportedAt: new Date().toISOString(),
+      numPlayers: state.ctx.numPlayers,
+      seed: (initialState.plugins.random?.data as { seed: string | number }).seed,
+      setupData: metadata.setupData as DalmutiSetupData | undefined,
+      players: Object.values(metadata.players).map(({ id, name }) => ({ id, name })),
+      moves,
+    };
+    ctx.body = replay;
+  });
+}
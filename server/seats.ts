@@ -0,0 +1,197 @@
+import { randomUUID } from 'crypto';
+import koaBody from 'koa-body';
+import type { Server } from 'boardgame.io/server';
+import type { Server as ServerTypes } from 'boardgame.io';
+import { getBotDifficulty } from '../src/game/ai';
+import type { BotDifficulty } from '../src/game/ai';
+import { getReplaceVotes, isStandIn } from '../src/game/seats';
+import type { TakeoverSeatData } from '../src/game/seats';
+import type { MatchDispatcher } from './dispatch';
+import { botSeat } from './bots';
+import { checkPassword, hashPassword, requireMatchPassword } from './passwords';
+
+type Router = ReturnType<typeof Server>['router'];
+
+// Stand-ins play properly: the absent player keeps their standing.
+const STAND_IN_DIFFICULTY: BotDifficulty = 'hard';
+
+// The Master announces a connection change before writing it to storage, so
+// wait this long before reading the seat back.
+const SETTLE_MS = 1000;
+
+/** A seat as published in matchData: its metadata without credentials. */
+type PublicSeat = Omit<ServerTypes.PlayerMetadata, 'credentials'>;
+
+/** A human who has gone: they left the seat, or their socket dropped. */
+function isAway(seat: PublicSeat): boolean {
+  return !getBotDifficulty(seat) && (!seat.name || seat.isConnected === false);
+}
+
+/**
+ * Watches who is connected to each game in progress. A player who leaves, or
+ * stays disconnected for `graceMs`, has their seat opened to a replacement
+ * vote (`data.replaceVotes`); coming back closes the vote again.
+ *
+ * Timers live in memory; after a restart they are re-armed from the stored
+ * metadata by feeding it through update().
+ */
+export class AwayTracker {
+  private readonly dispatcher: MatchDispatcher;
+  private readonly graceMs: number;
+  // One timer per "matchID:playerID" that is away but not yet up for a vote
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(dispatcher: MatchDispatcher, graceMs: number) {
+    this.dispatcher = dispatcher;
+    this.graceMs = graceMs;
+  }
+
+  /** Arm or clear the away timers for a match's latest roster. */
+  update(matchID: string, seats: PublicSeat[]): void {
+    for (const seat of seats) {
+      const key = `${matchID}:${seat.id}`;
+      const voting = getReplaceVotes(seat) !== null;
+
+      if (!isAway(seat)) {
+        clearTimeout(this.timers.get(key));
+        this.timers.delete(key);
+        if (voting) this.later(matchID, seat.id, SETTLE_MS, () => this.closeVote(matchID, seat.id));
+        continue;
+      }
+      if (voting || this.timers.has(key)) continue;
+      // Leaving gives up the seat at once; a dropped connection gets a grace period
+      this.later(matchID, seat.id, seat.name ? this.graceMs : 0, () => this.openVote(matchID, seat.id));
+    }
+  }
+
+  private later(matchID: string, id: number, ms: number, action: () => Promise<void>): void {
+    const key = `${matchID}:${id}`;
+    clearTimeout(this.timers.get(key));
+    this.timers.set(key, setTimeout(() => {
+      this.timers.delete(key);
+      action().catch((e) => console.error(`Seat takeover error in match ${matchID}:`, e));
+    }, ms));
+  }
+
+  private async openVote(matchID: string, id: number): Promise<void> {
+    const { state, metadata } = await this.dispatcher.fetch(matchID);
+    if (!state || !metadata) return;
+    // Only games in progress: the waiting room has the owner's kick instead
+    if (state.ctx.phase === 'lobby' || state.ctx.gameover !== undefined) return;
+    const seat = metadata.players[id];
+    if (!seat || !isAway(seat) || getReplaceVotes(seat) !== null) return;
+
+    const data: TakeoverSeatData = { replaceVotes: [] };
+    seat.data = { ...seat.data, ...data };
+    await this.dispatcher.setMetadata(matchID, metadata);
+  }
+
+  private async closeVote(matchID: string, id: number): Promise<void> {
+    const { metadata } = await this.dispatcher.fetch(matchID);
+    const seat = metadata?.players[id];
+    if (!metadata || !seat || isAway(seat) || getReplaceVotes(seat) === null) return;
+
+    const { replaceVotes: _, ...data } = seat.data as TakeoverSeatData;
+    seat.data = data;
+    await this.dispatcher.setMetadata(matchID, metadata);
+  }
+}
+
+/**
+ * A bot seat standing in for an away player. The bot gets credentials of its
+ * own; a dropped player keeps their name on the seat, and only a hash of their
+ * old credentials is kept (seat data is public) so /claim can recognise them.
+ */
+function standInSeat(seat: ServerTypes.PlayerMetadata): ServerTypes.PlayerMetadata {
+  const bot = botSeat(seat.id, STAND_IN_DIFFICULTY);
+  const data: TakeoverSeatData = { standIn: true };
+  if (seat.credentials) data.returnKey = hashPassword(seat.credentials);
+  return {
+    ...bot,
+    name: seat.name ?? bot.name,
+    data: { ...bot.data, ...data },
+  };
+}
+
+/**
+ * Routes for handing an away player's seat to a bot and back:
+ *
+ *   POST /games/:name/:id/voteReplace  { playerID, credentials, targetID }
+ *   POST /games/:name/:id/claim        { playerID, playerName, credentials? }
+ *
+ * A vote passes once a majority of the other connected humans back it. A
+ * stand-in seat can then be claimed by anyone who could join the match (a
+ * private match's password goes in the X-Match-Password header); claiming
+ * it with the away player's old credentials takes it back under the original
+ * name without one. Either way the claimant gets new credentials.
+ *
+ * Also wraps the Lobby API's /leave route, which frees a seat without
+ * publishing anything, so the tracker learns about players who leave.
+ */
+export function registerSeatRoutes(
+  router: Router,
+  dispatcher: MatchDispatcher,
+  tracker: AwayTracker,
+  gameName: string,
+): void {
+  router.post(`/games/${gameName}/:id/leave`, async (ctx, next) => {
+    await next();
+    const { metadata } = await dispatcher.fetch(ctx.params.id);
+    if (metadata) tracker.update(ctx.params.id, Object.values(metadata.players));
+  });
+
+  router.post(`/games/${gameName}/:id/voteReplace`, koaBody(), async (ctx) => {
+    const matchID = ctx.params.id;
+    const { playerID, credentials, targetID } = ctx.request.body;
+    const { metadata } = await dispatcher.fetch(matchID);
+    if (!metadata) return ctx.throw(404, 'Match ' + matchID + ' not found');
+    if (!(await dispatcher.authenticate(metadata, playerID, credentials))) {
+      ctx.throw(403, 'Invalid credentials');
+    }
+
+    const target = metadata.players[Number(targetID)];
+    const votes = getReplaceVotes(target);
+    if (!target || votes === null || String(target.id) === playerID) {
+      return ctx.throw(409, 'Player ' + targetID + ' cannot be replaced');
+    }
+
+    const voters = Object.values(metadata.players)
+      .filter((p) => p.id !== target.id && p.name && !getBotDifficulty(p) && p.isConnected !== false)
+      .map((p) => String(p.id));
+    const counted = [...new Set([...votes, playerID])].filter((id) => voters.includes(id));
+    const needed = Math.floor(voters.length / 2) + 1;
+    const replaced = counted.length >= needed;
+
+    if (replaced) {
+      metadata.players[target.id] = standInSeat(target);
+    } else {
+      const data: TakeoverSeatData = { replaceVotes: counted };
+      target.data = { ...target.data, ...data };
+    }
+    await dispatcher.setMetadata(matchID, metadata);
+    ctx.body = { replaced, votes: counted.length, needed };
+  });
+
+  router.post(`/games/${gameName}/:id/claim`, koaBody(), async (ctx) => {
+    const matchID = ctx.params.id;
+    const { playerID, playerName, credentials } = ctx.request.body;
+    const { metadata } = await dispatcher.fetch(matchID);
+    if (!metadata) return ctx.throw(404, 'Match ' + matchID + ' not found');
+
+    const seat = metadata.players[Number(playerID)];
+    if (!seat || !isStandIn(seat)) return ctx.throw(409, 'Seat ' + playerID + ' is not free to claim');
+
+    const { returnKey } = seat.data as TakeoverSeatData;
+    const returning = typeof credentials === 'string' && returnKey !== undefined
+      && checkPassword(credentials, returnKey);
+    // Newcomers need the match password, as they would to join
+    if (!returning) requireMatchPassword(ctx, metadata);
+    const name = returning ? seat.name : typeof playerName === 'string' ? playerName.trim() : '';
+    if (!name) ctx.throw(400, 'playerName is required');
+
+    const playerCredentials = randomUUID();
+    metadata.players[seat.id] = { id: seat.id, name, credentials: playerCredentials };
+    await dispatcher.setMetadata(matchID, metadata);
+    ctx.body = { playerCredentials };
+  });
+}
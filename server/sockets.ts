@@ -0,0 +1,45 @@
+import type { SocketIO } from 'boardgame.io/server';
+import type { StorageAPI } from 'boardgame.io';
+import { maySpectate } from './passwords';
+import { RejectionReportingSocketIO } from './rejections';
+
+type App = Parameters<SocketIO['init']>[0];
+type Game = Parameters<SocketIO['init']>[1][number];
+
+// Moves the server makes through MatchDispatcher after checking the match
+// metadata, which G cannot see (server/lobby.ts). A client never sends them.
+const SERVER_ONLY_MOVES = new Set(['transferOwnership']);
+
+function isServerOnlyMove(action: { type?: string; payload?: { type?: unknown } } | undefined): boolean {
+  return action?.type === 'MAKE_MOVE' && SERVER_ONLY_MOVES.has(String(action.payload?.type));
+}
+
+/**
+ * The game's socket transport: RejectionReportingSocketIO, plus a check on
+ * every packet a socket sends before boardgame.io's own handlers see it.
+ * A server-only move arriving from a socket is dropped, and so is a
+ * spectator's sync (no playerID) that maySpectate turns down; a seated
+ * player's sync is left to the Master's credential check.
+ */
+export class GuardedSocketIO extends RejectionReportingSocketIO {
+  init(app: App, games: Game[], origins?: Parameters<SocketIO['init']>[2]): void {
+    super.init(app, games, origins);
+    for (const game of games) {
+      app._io!.of(game.name!).on('connection', (socket) => {
+        socket.use(([event, ...args], next) => {
+          if (event === 'update' && isServerOnlyMove(args[0])) return;
+          if (event !== 'sync' || (args[1] !== null && args[1] !== undefined)) {
+            next();
+            return;
+          }
+          const [matchID, , secret] = args;
+          (app.context.db as StorageAPI.Async).fetch(String(matchID), { metadata: true })
+            .then(({ metadata }) => {
+              if (maySpectate(metadata, secret)) next();
+            })
+            .catch((e) => console.error(`Spectator check error in match ${matchID}:`, e));
+        });
+      });
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Async } from 'boardgame.io/internal';
+import type { LogEntry, Server, State, StorageAPI } from 'boardgame.io';
+
+// Everything about a match except its log, which is appended separately.
+interface StoredMatch {
+  initialState: State;
+  state: State;
+  metadata: Server.MatchData;
+}
+
+/**
+ * File-based match storage. Each match is a pair of files in `dir`:
+ *
+ *   <matchID>.json  initial state, current state and metadata (rewritten)
+ *   <matchID>.log   one JSON log entry per line (appended)
+ *
+ * Everything is also kept in memory, so reads never touch the disk; the files
+ * are loaded once in connect() when the server boots. Writes to a match are
+ * queued so they land in order, and the .json file is replaced atomically.
+ */
+export class FileStorage extends Async {
+  private readonly dir: string;
+  private readonly matches = new Map<string, StoredMatch>();
+  private readonly logs = new Map<string, LogEntry[]>();
+  private readonly queues = new Map<string, Promise<void>>();
+
+  constructor({ dir }: { dir: string }) {
+    super();
+    this.dir = dir;
+  }
+
+  private file(matchID: string, ext: 'json' | 'log'): string {
+    return path.join(this.dir, `${encodeURIComponent(matchID)}.${ext}`);
+  }
+
+  /** Run `write` after every earlier write to the same match. */
+  private enqueue(matchID: string, write: () => Promise<void>): Promise<void> {
+    const next = (this.queues.get(matchID) ?? Promise.resolve()).then(write, write);
+    this.queues.set(matchID, next);
+    return next;
+  }
+
+  private persist(matchID: string): Promise<void> {
+    return this.enqueue(matchID, async () => {
+      const match = this.matches.get(matchID);
+      if (!match) return;
+      const file = this.file(matchID, 'json');
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(match));
+      await fs.rename(`${file}.tmp`, file);
+    });
+  }
+
+  async connect(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    for (const name of await fs.readdir(this.dir)) {
+      if (!name.endsWith('.json')) continue;
+      const matchID = decodeURIComponent(name.slice(0, -'.json'.length));
+      try {
+        this.matches.set(matchID, JSON.parse(await fs.readFile(path.join(this.dir, name), 'utf8')));
+        const log = await fs.readFile(this.file(matchID, 'log'), 'utf8').catch(() => '');
+        this.logs.set(matchID, log.split('\n').filter(Boolean).map((line) => JSON.parse(line)));
+      } catch (e) {
+        console.error(`Skipping unreadable match file ${name}:`, e);
+      }
+    }
+  }
+
+  async createMatch(matchID: string, { initialState, metadata }: StorageAPI.CreateMatchOpts): Promise<void> {
+    this.matches.set(matchID, { initialState, state: initialState, metadata });
+    this.logs.set(matchID, []);
+    await this.persist(matchID);
+  }
+
+  async setState(matchID: string, state: State, deltalog?: LogEntry[]): Promise<void> {
+    const match = this.matches.get(matchID);
+    if (!match) return;
+    match.state = state;
+    const writes = [this.persist(matchID)];
+    if (deltalog && deltalog.length > 0) {
+      this.logs.get(matchID)?.push(...deltalog);
+      const lines = deltalog.map((entry) => JSON.stringify(entry) + '\n').join('');
+      writes.push(this.enqueue(matchID, () => fs.appendFile(this.file(matchID, 'log'), lines)));
+    }
+    await Promise.all(writes);
+  }
+
+  async setMetadata(matchID: string, metadata: Server.MatchData): Promise<void> {
+    const match = this.matches.get(matchID);
+    if (!match) return;
+    match.metadata = metadata;
+    await this.persist(matchID);
+  }
+
+  async fetch<O extends StorageAPI.FetchOpts>(matchID: string, opts: O): Promise<StorageAPI.FetchResult<O>> {
+    const match = this.matches.get(matchID);
+    const result: Partial<StorageAPI.FetchFields> = {};
+    if (opts.state) result.state = match?.state;
+    if (opts.metadata) result.metadata = match?.metadata;
+    if (opts.initialState) result.initialState = match?.initialState;
+    if (opts.log) result.log = this.logs.get(matchID) ?? [];
+    return result as StorageAPI.FetchResult<O>;
+  }
+
+  async wipe(matchID: string): Promise<void> {
+    this.matches.delete(matchID);
+    this.logs.delete(matchID);
+    await this.enqueue(matchID, async () => {
+      await fs.rm(this.file(matchID, 'json'), { force: true });
+      await fs.rm(this.file(matchID, 'log'), { force: true });
+    });
+    this.queues.delete(matchID);
+  }
+
+  async listMatches(opts?: StorageAPI.ListMatchesOpts): Promise<string[]> {
+    const where = opts?.where;
+    return [...this.matches.entries()]
+      .filter(([, { metadata }]) =>
+        (opts?.gameName === undefined || metadata.gameName === opts.gameName)
+        && (where?.isGameover === undefined || (metadata.gameover !== undefined) === where.isGameover)
+        && (where?.updatedBefore === undefined || metadata.updatedAt < where.updatedBefore)
+        && (where?.updatedAfter === undefined || metadata.updatedAt > where.updatedAfter))
+      .map(([matchID]) => matchID);
+  }
+}
+
+// Available backends, chosen with the STORAGE environment variable. `memory`
+// is boardgame.io's built-in store (undefined = the Server default) and loses
+// every match on restart.
+const BACKENDS: Record<string, () => StorageAPI.Async | StorageAPI.Sync | undefined> = {
+  // On Render, point DATA_DIR at a persistent disk so matches outlive redeploys.
+  file: () => new FileStorage({ dir: process.env.DATA_DIR ?? 'data' }),
+  memory: () => undefined,
+};
+
+/** Create the match store named by STORAGE (default: file). */
+export function createStorage(): StorageAPI.Async | StorageAPI.Sync | undefined {
+  const name = process.env.STORAGE ?? 'file';
+  const backend = BACKENDS[name];
+  if (!backend) {
+    throw new Error(`Unknown STORAGE "${name}"; expected one of ${Object.keys(BACKENDS).join(', ')}`);
+  }
+  return backend();
+}
@@ -0,0 +1,100 @@
+import type { State } from 'boardgame.io';
+import type { DalmutiState } from '../src/game/types';
+import type { MatchDispatcher } from './dispatch';
+
+interface PendingDeadline {
+  deadline: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Reads a deadline from a match state and acts once it passes. */
+interface DeadlineRule {
+  name: string;
+  /** Keep counting down while the match is paused. */
+  whilePaused?: boolean;
+  /** Server clock time to fire at, or null when nothing is due. */
+  deadline(state: State): number | null;
+  fire(dispatcher: MatchDispatcher, matchID: string, state: State): Promise<void>;
+}
+
+/**
+ * Server-side owner of one kind of countdown stored in G. The game sets a
+ * deadline (e.g. G.roundOverDeadline) and the server fires the matching move
+ * when it passes, so matches move on even when every browser has gone to sleep.
+ */
+export class DeadlineTimer {
+  private readonly dispatcher: MatchDispatcher;
+  private readonly rule: DeadlineRule;
+  private readonly pending = new Map<string, PendingDeadline>();
+
+  constructor(dispatcher: MatchDispatcher, rule: DeadlineRule) {
+    this.dispatcher = dispatcher;
+    this.rule = rule;
+  }
+
+  /**
+   * Arm, keep or clear a match's timer to match its latest state. A paused
+   * match has no timers but the whilePaused ones; resuming moves its
+   * deadlines and re-arms them.
+   */
+  update(matchID: string, state: State): void {
+    const running = state.ctx.gameover === undefined
+      && ((state.G as DalmutiState).pausedAt === null || this.rule.whilePaused === true);
+    const deadline = running ? this.rule.deadline(state) : null;
+
+    const existing = this.pending.get(matchID);
+    if (existing && existing.deadline === deadline) return;
+    if (existing) {
+      clearTimeout(existing.timer);
+      this.pending.delete(matchID);
+    }
+    if (deadline === null) return;
+
+    const timer = setTimeout(() => {
+      this.pending.delete(matchID);
+      this.rule.fire(this.dispatcher, matchID, state)
+        .catch((e) => console.error(`${this.rule.name} error in match ${matchID}:`, e));
+    }, Math.max(0, deadline - Date.now()));
+    this.pending.set(matchID, { deadline, timer });
+  }
+}
+
+/** Advances to the next round once the round-over countdown ends. */
+export const roundOverRule: DeadlineRule = {
+  name: 'Round timer',
+  deadline: (state) => (state.ctx.phase === 'roundOver'
+    ? (state.G as DalmutiState).roundOverDeadline
+    : null),
+  async fire(dispatcher, matchID) {
+    const { metadata } = await dispatcher.fetch(matchID);
+    // Every player is active in roundOver, so any seat with credentials will do.
+    const seat = metadata && Object.values(metadata.players).find((p) => p.credentials);
+    if (!seat) return;
+    await dispatcher.move(matchID, String(seat.id), 'advanceRound');
+  },
+};
+
+/** Passes (or makes a forced lead) for a player whose turn clock has run out. */
+export const turnRule: DeadlineRule = {
+  name: 'Turn timer',
+  deadline: (state) => (state.ctx.phase === 'play'
+    ? (state.G as DalmutiState).turnDeadline
+    : null),
+  async fire(dispatcher, matchID, state) {
+    await dispatcher.move(matchID, state.ctx.currentPlayer, 'timeoutTurn');
+  },
+};
+
+/** Cancels a pause or resume vote still undecided at its deadline. */
+export const pauseVoteRule: DeadlineRule = {
+  name: 'Pause vote timer',
+  whilePaused: true,
+  deadline: (state) => (state.G as DalmutiState).pauseVote?.deadline ?? null,
+  async fire(dispatcher, matchID) {
+    const { metadata } = await dispatcher.fetch(matchID);
+    // Every seat is offered the pause moves, so any with credentials will do.
+    const seat = metadata && Object.values(metadata.players).find((p) => p.credentials);
+    if (!seat) return;
+    await dispatcher.move(matchID, String(seat.id), 'cancelPauseVote');
+  },
+};
@@ -1,8 +1,8 @@
 import { useEffect } from 'react';
 import { LobbyScreen } from './components/Lobby/LobbyScreen';
-
-const SERVER_URL = import.meta.env.VITE_SERVER_URL
-  ?? `${window.location.protocol}//${window.location.hostname}:8000`;
+import { ReplayViewer } from './components/Replay/ReplayViewer';
+import { SERVER_URL } from './client/api';
+import { parseRoute } from './client/routes';
 
 /** Kick off background loads for all 82 card images so they are cached before play. */
 function usePreloadCards() {
@@ -24,5 +24,7 @@ function usePreloadCards() {
 
 export function App() {
   usePreloadCards();
+  // The replay viewer is the one standalone page; the lobby handles the rest
+  if (parseRoute(window.location.pathname).name === 'replay') return <ReplayViewer />;
   return <LobbyScreen serverURL={SERVER_URL} />;
 }
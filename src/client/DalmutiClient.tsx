@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Client } from 'boardgame.io/react';
+import { SocketIO } from 'boardgame.io/multiplayer';
+import { DalmutiGame } from '../game/DalmutiGame';
+import { Board } from '../components/Board/Board';
+
+// In development, Vite proxies /socket.io to localhost:8000.
+// In production, set VITE_SERVER_URL to the deployed server origin.
+const SERVER = import.meta.env.VITE_SERVER_URL
+  ?? `${window.location.protocol}//${window.location.host}`;
+
+// socket.io retries a dropped connection by itself; back off from 1 s up to
+// 30 s between attempts (with jitter) so a sleeping server isn't hammered.
+const SOCKET_OPTS = {
+  reconnectionDelay: 1000,
+  reconnectionDelayMax: 30_000,
+};
+
+interface DalmutiClientProps {
+  matchID: string;
+  // playerID is omitted for spectators. A spectator of a password-protected
+  // match sends the password as credentials instead (or, watching its own
+  // seat while a stand-in bot holds it, the seat's old credentials); see
+  // maySpectate in server/passwords.ts.
+  playerID?: string;
+  credentials?: string;
+  // Passed through to Board: give up the seat (or stop watching) and return to the lobby
+  onLeave?: () => void;
+  // Passed through to Board: the owner kicked this player
+  onRemoved?: () => void;
+  // Passed through to Board: a spectator takes over a stand-in bot's seat
+  onClaimSeat?: (playerID: string) => void;
+}
+
+// boardgame.io/react's Client() returns a class component with a complex type.
+// We cast to ComponentType to make it compatible with React 18 function JSX.
+const _DalmutiClientImpl = Client({
+  game: DalmutiGame,
+  board: Board,
+  multiplayer: SocketIO({ server: SERVER, socketOpts: SOCKET_OPTS }),
+  debug: false,
+}) as React.ComponentType<DalmutiClientProps & {
+  // Passed through to Board: drop the socket and connect afresh
+  onReconnect?: () => void;
+}>;
+
+/**
+ * The multiplayer client. Board's "Retry now" remounts the boardgame.io
+ * client, which closes the old socket and opens a new one straight away
+ * instead of waiting out socket.io's backoff.
+ */
+export function DalmutiClient(props: DalmutiClientProps) {
+  const [generation, setGeneration] = useState(0);
+  return <_DalmutiClientImpl key={generation} {...props} onReconnect={() => setGeneration((g) => g + 1)} />;
+}
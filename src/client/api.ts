@@ -0,0 +1,142 @@
+import type { BotDifficulty } from '../game/ai';
+import type { MatchReplay } from '../game/replay';
+
+// Origin of the boardgame.io server's Lobby API (and our custom routes).
+// In production, set VITE_SERVER_URL to the deployed server origin.
+export const SERVER_URL = import.meta.env.VITE_SERVER_URL
+  ?? `${window.location.protocol}//${window.location.hostname}:8000`;
+
+const GAME_NAME = 'great-dalmuti';
+
+// Carries a private match's password; checked by server/passwords.ts.
+const PASSWORD_HEADER = 'X-Match-Password';
+
+/** Call one of the server's game routes, throwing on a non-2xx response. */
+async function request<T>(path: string, body?: object, headers?: Record<string, string>): Promise<T> {
+  const res = await fetch(`${SERVER_URL}/games/${GAME_NAME}/${path}`, body === undefined ? {} : {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    throw new Error(`HTTP status ${res.status}: ${await res.text()}`);
+  }
+  return res.json();
+}
+
+/** POST JSON to one of the server's match routes. */
+function postMatchRoute<T>(matchID: string, route: string, body: object, headers?: Record<string, string>): Promise<T> {
+  return request(`${matchID}/${route}`, body, headers);
+}
+
+/** Owner only: seat a server-side bot in the next free seat. */
+export function addBot(
+  matchID: string,
+  playerID: string,
+  credentials: string,
+  difficulty: BotDifficulty,
+): Promise<{ playerID: string }> {
+  return postMatchRoute(matchID, 'addBot', { playerID, credentials, difficulty });
+}
+
+/** Owner only: remove a bot and free its seat. */
+export function removeBot(
+  matchID: string,
+  playerID: string,
+  credentials: string,
+  botID: string,
+): Promise<void> {
+  return postMatchRoute(matchID, 'removeBot', { playerID, credentials, botID });
+}
+
+/** Owner only: remove a player from the waiting room and free their seat. */
+export function kickPlayer(
+  matchID: string,
+  playerID: string,
+  credentials: string,
+  targetID: string,
+): Promise<void> {
+  return postMatchRoute(matchID, 'kick', { playerID, credentials, targetID });
+}
+
+/** Owner only: hand the waiting room to another joined player. */
+export function transferOwnership(
+  matchID: string,
+  playerID: string,
+  credentials: string,
+  targetID: string,
+): Promise<void> {
+  return postMatchRoute(matchID, 'transferOwnership', { playerID, credentials, targetID });
+}
+
+/** Vote to hand an away player's seat to a stand-in bot. */
+export function voteToReplace(
+  matchID: string,
+  playerID: string,
+  credentials: string,
+  targetID: string,
+): Promise<{ replaced: boolean; votes: number; needed: number }> {
+  return postMatchRoute(matchID, 'voteReplace', { playerID, credentials, targetID });
+}
+
+/**
+ * Take over a stand-in bot's seat. Passing the seat's old credentials takes
+ * it back under the original name; anyone else joins as `playerName`, with
+ * the `password` of a private match.
+ */
+export function claimSeat(
+  matchID: string,
+  playerID: string,
+  playerName: string,
+  credentials?: string,
+  password = '',
+): Promise<{ playerCredentials: string }> {
+  const headers = password ? { [PASSWORD_HEADER]: password } : undefined;
+  return postMatchRoute(matchID, 'claim', { playerID, playerName, credentials }, headers);
+}
+
+/**
+ * Fetch a finished match's replay and save it as a JSON file. The server
+ * refuses a match still in progress.
+ */
+export async function downloadReplay(matchID: string): Promise<void> {
+  const replay = await postMatchRoute<MatchReplay>(matchID, 'replay', {});
+  const blob = new Blob([JSON.stringify(replay, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `dalmuti-${matchID}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Check a private match's password before watching it (403 if wrong). */
+export function checkWatchPassword(matchID: string, password: string): Promise<void> {
+  return postMatchRoute(matchID, 'watch', {}, password ? { [PASSWORD_HEADER]: password } : undefined);
+}
+
+/**
+ * Request options carrying a private match's password, for the Lobby API's
+ * createMatch and joinMatch. Checked by server/passwords.ts.
+ */
+export function passwordInit(password: string): RequestInit | undefined {
+  return password ? { headers: { [PASSWORD_HEADER]: password } } : undefined;
+}
+
+/** A quick-play ticket's state, as returned by server/matchmaking.ts. */
+export type QuickPlayStatus =
+  | { status: 'waiting'; numPlayers: number; queued: number; botFillAt: number }
+  | { status: 'matched'; matchID: string; playerID: string; credentials: string; numPlayers: number };
+
+/** Queue for a quick-play table of `numPlayers`; returns the ticket to poll. */
+export function joinQuickPlay(playerName: string, numPlayers: number): Promise<{ ticketID: string }> {
+  return request('quickplay', { playerName, numPlayers });
+}
+
+export function pollQuickPlay(ticketID: string): Promise<QuickPlayStatus> {
+  return request(`quickplay/${ticketID}`);
+}
+
+export function leaveQuickPlay(ticketID: string): Promise<void> {
+  return request(`quickplay/${ticketID}/leave`, {});
+}
@@ -0,0 +1,18 @@
+import { appError } from '../game/errors';
+import type { AppError, ErrorCode } from '../game/errors';
+
+/**
+ * Turn whatever a server call threw into an AppError. Both LobbyClient and
+ * api.ts report a failed response as "HTTP status <code>…"; `byStatus` says
+ * what a status means for the call at hand (404 is a missing match unless
+ * overridden). fetch itself throws a TypeError when the server can't be
+ * reached at all.
+ */
+export function toAppError(e: unknown, byStatus: Partial<Record<number, ErrorCode>> = {}): AppError {
+  if (e instanceof TypeError) return appError('serverUnreachable');
+  const status = Number(/HTTP status (\d+)/.exec(String(e))?.[1]);
+  const code = byStatus[status] ?? (status === 404 ? 'matchNotFound' : null);
+  if (code) return appError(code);
+  console.error(e);
+  return appError('unknown');
+}
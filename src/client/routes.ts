@@ -0,0 +1,44 @@
+// Client-side routes. vercel.json (and Vite's dev server) serve index.html for
+// every path, so the app reads the path itself:
+//
+//   /                      lobby
+//   /match/:matchID        waiting room — also the invite link
+//   /match/:matchID/play   in the game
+//   /match/:matchID/watch  spectating the game
+//   /replay                replay viewer
+
+export type Route =
+  | { name: 'lobby' }
+  | { name: 'match'; matchID: string; play: boolean }
+  | { name: 'watch'; matchID: string }
+  | { name: 'replay' };
+
+export function parseRoute(pathname: string): Route {
+  if (pathname === '/replay') return { name: 'replay' };
+  const match = /^\/match\/([^/]+)(\/play|\/watch)?\/?$/.exec(pathname);
+  if (match?.[2] === '/watch') return { name: 'watch', matchID: decodeURIComponent(match[1]) };
+  if (match) {
+    return { name: 'match', matchID: decodeURIComponent(match[1]), play: match[2] !== undefined };
+  }
+  return { name: 'lobby' };
+}
+
+export function matchPath(matchID: string, play = false): string {
+  return `/match/${encodeURIComponent(matchID)}${play ? '/play' : ''}`;
+}
+
+export function watchPath(matchID: string): string {
+  return `/match/${encodeURIComponent(matchID)}/watch`;
+}
+
+/** Full URL that drops a friend straight into the join flow for a match. */
+export function inviteLink(matchID: string): string {
+  return `${window.location.origin}${matchPath(matchID)}`;
+}
+
+/** Point the address bar at `path` without reloading. */
+export function navigate(path: string): void {
+  if (window.location.pathname !== path) {
+    window.history.pushState(null, '', path);
+  }
+}
@@ -0,0 +1,36 @@
+// The seat this browser holds in a match, kept in localStorage so a refresh or
+// a closed tab doesn't lose it: the credentials are the only proof of the seat.
+
+export interface MatchSession {
+  matchID: string;
+  playerID: string;
+  credentials: string;
+  numPlayers: number;
+}
+
+const STORAGE_KEY = 'dalmuti.session';
+
+export function loadSession(): MatchSession | null {
+  try {
+    const session = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<MatchSession> | null;
+    if (
+      typeof session?.matchID === 'string'
+      && typeof session.playerID === 'string'
+      && typeof session.credentials === 'string'
+      && typeof session.numPlayers === 'number'
+    ) {
+      return session as MatchSession;
+    }
+  } catch {
+    // Corrupt entry — treat as no session
+  }
+  return null;
+}
+
+export function saveSession(session: MatchSession): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearSession(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
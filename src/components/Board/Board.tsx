@@ -1,12 +1,46 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import type { BoardProps } from 'boardgame.io/react';
-import type { DalmutiState } from '../../game/types';
+import type { DalmutiState, DalmutiGameover } from '../../game/types';
+import { isMoveRejection, rejectionError } from '../../game/errors';
+import type { MoveRejection } from '../../game/errors';
+import { BOT_DIFFICULTIES, getBotDifficulty } from '../../game/ai';
+import type { BotDifficulty } from '../../game/ai';
+import { addBot, removeBot, kickPlayer, transferOwnership, voteToReplace, downloadReplay } from '../../client/api';
+import { toAppError } from '../../client/errors';
+import { pointsForPosition } from '../../game/scoring';
+import { pauseVoteMajority } from '../../game/moves';
 import { Hand } from '../Hand/Hand';
 import { PlayArea } from '../PlayArea/PlayArea';
 import { PlayerList } from '../PlayerList/PlayerList';
+import { TrickHistory } from '../TrickHistory/TrickHistory';
+import { CardTracker } from '../CardTracker/CardTracker';
+import { ChatDrawer, useEmoteBubbles } from '../Chat/ChatDrawer';
+import { ToastStack, useToasts } from '../Toast/Toast';
 import styles from './Board.module.css';
 
-export type DalmutiBoardProps = BoardProps<DalmutiState>;
+export type DalmutiBoardProps = BoardProps<DalmutiState> & {
+  /** Read-only replay: every hand face up, no timers or moves. */
+  replay?: boolean;
+  /** Give up this seat and go back to the lobby. */
+  onLeave?: () => void;
+  /** The owner kicked this player: forget the seat and go back to the lobby. */
+  onRemoved?: () => void;
+  /**
+   * Take over a stand-in bot's seat: any seat for a spectator, their own for
+   * a seated player. Claiming issues new credentials, so the lobby handles it.
+   */
+  onClaimSeat?: (playerID: string) => void;
+  /** Drop the socket and connect again now, instead of waiting for the next retry. */
+  onReconnect?: () => void;
+};
+
+// How long after the round-over deadline a client steps in to advance the
+// round itself, giving the server's own timer the first chance.
+const ADVANCE_GRACE_MS = 2000;
+
+// A socket that is still connecting this long after going offline (or after
+// the board first loads) gets the connection banner.
+const OFFLINE_BANNER_DELAY_MS = 1500;
 
 // ---------------------------------------------------------------------------
 // Table position helpers
@@ -69,6 +103,33 @@ function getSocialTitle(rank: number | null, n: number): string {
   return 'Merchant';
 }
 
+// ---------------------------------------------------------------------------
+// Connection banner
+// ---------------------------------------------------------------------------
+
+/**
+ * Shown while the socket is down. socket.io keeps retrying with backoff on
+ * its own (see DalmutiClient); "Retry now" skips the wait. Mounted when the
+ * connection drops, so the timer counts from then.
+ */
+function ConnectionBanner({ onRetry }: { onRetry?: () => void }) {
+  const [since] = useState(Date.now);
+  const [now, setNow] = useState(since);
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, []);
+
+  const elapsed = now - since;
+  if (elapsed < OFFLINE_BANNER_DELAY_MS) return null;
+  return (
+    <div className={styles.connectionBanner} role="alert">
+      <span>Connection lost — reconnecting… ({Math.floor(elapsed / 1000)} s)</span>
+      {onRetry && <button className={styles.seatBtn} onClick={onRetry}>Retry now</button>}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Board component
 // ---------------------------------------------------------------------------
@@ -79,21 +140,71 @@ export function Board({
   moves,
   playerID,
   isActive,
+  isConnected,
   matchData,
+  matchID,
+  credentials,
+  replay = false,
+  onLeave,
+  onRemoved,
+  onClaimSeat,
+  onReconnect,
+  chatMessages,
+  sendChatMessage,
 }: DalmutiBoardProps) {
   const movesRef = useRef(moves);
   movesRef.current = moves;
 
-  const [countdown, setCountdown] = useState(15);
+  const [countdown, setCountdown] = useState(0);
   // Transient revolution announcement — shown for 4 s then auto-dismissed.
   const [revolutionAnnouncement, setRevolutionAnnouncement] = useState<string | null>(null);
-
-  // Auto-advance from the roundOver phase after 15 s (owner only).
+  // Waiting-room seat controls (owner only)
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('easy');
+  const [seatBusy, setSeatBusy] = useState(false);
+  // The server's move rejections arrive on the chat channel, addressed to
+  // this player alone; they become toasts rather than table chat.
+  const tableChat = useMemo(() => chatMessages.filter((m) => !isMoveRejection(m.payload)), [chatMessages]);
+  const rejections = useMemo(
+    () => chatMessages.map((m) => m.payload).filter((p): p is MoveRejection => isMoveRejection(p)),
+    [chatMessages],
+  );
+  // Quick reactions float next to their sender for a few seconds
+  const emotes = useEmoteBubbles(tableChat);
+  const { toasts, showError, dismiss } = useToasts();
+  const seenRejections = useRef(rejections.length);
   useEffect(() => {
-    if (ctx.phase !== 'roundOver' || playerID !== '0') return;
-    const timer = setTimeout(() => movesRef.current.advanceRound(), 15000);
-    return () => clearTimeout(timer);
-  }, [ctx.phase, playerID]);
+    const fresh = rejections.slice(seenRejections.current);
+    seenRejections.current = rejections.length;
+    fresh.forEach((rejection) => showError(rejectionError(rejection, G.currentTrick)));
+  }, [rejections]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // The round-over countdown is derived from the shared deadline in G, so all
+  // players see the same number. The server advances the round when it passes.
+  const isGameOver = ctx.gameover !== undefined;
+  // Spectators connect without a seat (replays have no seat either)
+  const spectating = playerID === null && !replay;
+  const revealHands = replay || (spectating && G.options.spectatorsSeeHands);
+  // Deadlines are frozen while the match is paused
+  const paused = G.pausedAt !== null;
+  const roundOverDeadline = ctx.phase === 'roundOver' && !isGameOver && !replay && !paused
+    ? G.roundOverDeadline
+    : null;
+  useEffect(() => {
+    if (roundOverDeadline === null) return;
+    const tick = () => setCountdown(Math.max(0, Math.ceil((roundOverDeadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    // Fallback in case the server's timer hasn't fired: any client may
+    // advance once the deadline has passed (the move re-checks it).
+    const fallback = setTimeout(
+      () => movesRef.current.advanceRound(),
+      Math.max(0, roundOverDeadline - Date.now()) + ADVANCE_GRACE_MS,
+    );
+    return () => {
+      clearInterval(interval);
+      clearTimeout(fallback);
+    };
+  }, [roundOverDeadline]);
 
   // Show a transient revolution announcement for 4 s when one is declared.
   useEffect(() => {
@@ -109,26 +220,64 @@ export function Board({
     return () => clearTimeout(timer);
   }, [G.revolutionDeclaredBy]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Drive the visible countdown for all players.
-  useEffect(() => {
-    if (ctx.phase !== 'roundOver') {
-      setCountdown(15);
-      return;
-    }
-    const interval = setInterval(() => setCountdown((c) => Math.max(0, c - 1)), 1000);
-    return () => clearInterval(interval);
-  }, [ctx.phase]);
-
   const myPlayer = playerID !== null ? G.players[playerID] : null;
   const isMyTurn = isActive && ctx.currentPlayer === playerID;
   const inTaxPhase = ctx.phase === 'tax';
   const n = ctx.numPlayers;
+  const displayName = (id: string) =>
+    matchData?.find((p) => String(p.id) === id)?.name ?? `Player ${id}`;
+  const chatDrawer = !replay && (
+    <ChatDrawer
+      messages={tableChat}
+      displayName={displayName}
+      onSend={spectating ? undefined : sendChatMessage}
+    />
+  );
+  const toastStack = <ToastStack toasts={toasts} onDismiss={dismiss} />;
+  // Moves sent while offline would be lost, so actions wait for the socket
+  const offline = !replay && !isConnected;
+  const connectionBanner = offline && <ConnectionBanner onRetry={onReconnect} />;
 
   // ---- Lobby phase: waiting room before the game starts ----
   if (ctx.phase === 'lobby') {
     const joinedCount = matchData?.filter((p) => p.name).length ?? 0;
-    const isOwner = playerID === '0';
+    const isOwner = playerID !== null && playerID === G.ownerID;
     const canStart = isOwner && isActive && joinedCount >= n;
+    // Our seat has been emptied under us: the owner kicked us
+    const wasRemoved = playerID !== null && matchData !== undefined
+      && !matchData.find((p) => String(p.id) === playerID)?.name;
+    const plannedOrder = G.plannedSeatOrder;
+
+    // Bots, kicks and ownership go through the server's lobby routes, not
+    // moves: they change the seat metadata, or are checked against it.
+    const manageSeats = (action: () => Promise<unknown>) => {
+      if (!playerID || !credentials) return;
+      setSeatBusy(true);
+      action()
+        .catch((e) => showError(toAppError(e)))
+        .finally(() => setSeatBusy(false));
+    };
+
+    // Swap a seat with its neighbour in the owner's manual seating
+    const moveSeat = (index: number, delta: number) => {
+      if (!plannedOrder) return;
+      const order = [...plannedOrder];
+      [order[index], order[index + delta]] = [order[index + delta], order[index]];
+      moves.setSeatOrder(order);
+    };
+
+    if (wasRemoved) {
+      return (
+        <div className={styles.board}>
+          <div className={styles.lobbyWaiting}>
+            <p className={styles.lobbyWaitMsg}>The owner removed you from this match.</p>
+            {onRemoved && (
+              <button className={styles.startBtn} onClick={onRemoved}>Back to lobby</button>
+            )}
+          </div>
+        </div>
+      );
+    }
 
     return (
       <div className={styles.board}>
@@ -136,8 +285,15 @@ export function Board({
           <img src="/greatDalmutiTitle.png" alt="The Great Dalmuti" className={styles.titleImg} />
           <div className={styles.meta}>
             <span className={styles.phase}>Waiting Room</span>
+            {spectating && <span className={styles.spectating}>Spectating</span>}
+            {onLeave && (
+              <button className={styles.headerBtn} onClick={onLeave}>
+                {spectating ? 'Stop watching' : 'Leave match'}
+              </button>
+            )}
           </div>
         </header>
+        {connectionBanner}
         <div className={styles.lobbyWaiting}>
           <h2 className={styles.lobbyHeading}>
             Players ({joinedCount} / {n})
@@ -146,14 +302,116 @@ export function Board({
             {matchData?.map((p) => (
               <li key={p.id} className={p.name ? styles.rosterJoined : styles.rosterEmpty}>
                 {p.name ?? 'Waiting…'}
+                {String(p.id) === G.ownerID && <span className={styles.ownerTag}>Owner</span>}
+                {isOwner && getBotDifficulty(p) && (
+                  <button
+                    className={styles.seatBtn}
+                    disabled={seatBusy}
+                    onClick={() => manageSeats(() =>
+                      removeBot(matchID, playerID!, credentials!, String(p.id)))}
+                  >
+                    Remove
+                  </button>
+                )}
+                {isOwner && p.name && !getBotDifficulty(p) && String(p.id) !== playerID && (
+                  <>
+                    <button
+                      className={styles.seatBtn}
+                      disabled={seatBusy}
+                      onClick={() => manageSeats(() =>
+                        transferOwnership(matchID, playerID!, credentials!, String(p.id)))}
+                    >
+                      Make owner
+                    </button>
+                    <button
+                      className={styles.seatBtn}
+                      disabled={seatBusy}
+                      onClick={() => manageSeats(() =>
+                        kickPlayer(matchID, playerID!, credentials!, String(p.id)))}
+                    >
+                      Kick
+                    </button>
+                  </>
+                )}
               </li>
             ))}
           </ul>
+          {isOwner && joinedCount < n && (
+            <div className={styles.botControls}>
+              <select
+                className={styles.botSelect}
+                value={botDifficulty}
+                onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+              >
+                {BOT_DIFFICULTIES.map((d) => (
+                  <option key={d} value={d}>{d === 'easy' ? 'Easy bot' : 'Hard bot'}</option>
+                ))}
+              </select>
+              <button
+                className={styles.addBotBtn}
+                disabled={seatBusy}
+                onClick={() => manageSeats(() =>
+                  addBot(matchID, playerID!, credentials!, botDifficulty))}
+              >
+                Add Bot
+              </button>
+            </div>
+          )}
+          {(isOwner || plannedOrder) && (
+            <div className={styles.seating}>
+              <h3 className={styles.seatingHeading}>Seating</h3>
+              {isOwner && (
+                <div className={styles.seatingModes}>
+                  <label>
+                    <input
+                      type="radio"
+                      checked={plannedOrder === null}
+                      onChange={() => moves.setSeatOrder(null)}
+                    />
+                    Random
+                  </label>
+                  <label>
+                    <input
+                      type="radio"
+                      checked={plannedOrder !== null}
+                      onChange={() => moves.setSeatOrder(Object.keys(G.players))}
+                    />
+                    Manual
+                  </label>
+                </div>
+              )}
+              {plannedOrder ? (
+                <ol className={styles.seatList}>
+                  {plannedOrder.map((id, i) => (
+                    <li key={id}>
+                      {displayName(id)}
+                      {isOwner && (
+                        <>
+                          <button className={styles.seatBtn} disabled={i === 0} onClick={() => moveSeat(i, -1)}>
+                            ↑
+                          </button>
+                          <button
+                            className={styles.seatBtn}
+                            disabled={i === plannedOrder.length - 1}
+                            onClick={() => moveSeat(i, 1)}
+                          >
+                            ↓
+                          </button>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className={styles.lobbyWaitMsg}>Seats are drawn at random when the game starts.</p>
+              )}
+            </div>
+          )}
           {isOwner ? (
             <button
               className={styles.startBtn}
               onClick={() => moves.startGame()}
-              disabled={!canStart}
+              disabled={!canStart || offline}
             >
               {canStart ? 'Start Game' : `Waiting for players (${joinedCount}/${n})`}
             </button>
@@ -161,12 +419,16 @@ export function Board({
             <p className={styles.lobbyWaitMsg}>Waiting for the owner to start the game…</p>
           )}
         </div>
+        {chatDrawer}
+        {toastStack}
       </div>
     );
   }
 
   // ---- Tax / Play / Round-over phases: main game board ----
-  const isRoundOver = ctx.phase === 'roundOver';
+  // Once the match is over the final results replace the round-over overlay.
+  const isRoundOver = ctx.phase === 'roundOver' || isGameOver;
+  const gameover = ctx.gameover as DalmutiGameover | undefined;
   const completedRound = G.roundNumber - 1;
 
   // Debt where this player is the payer (Peon) — their best cards were auto-staged
@@ -179,9 +441,10 @@ export function Board({
     ? G.taxDebts.find((d) => d.toPlayerID === playerID && d.count > 0) ?? null
     : null;
 
-  // Revolution: available in the tax phase to any player holding both Jokers.
+  // Revolution: available in the tax phase to any player holding both Jokers,
+  // unless the match's house rules turn revolutions off.
   const canDeclareRevolution = (() => {
-    if (!inTaxPhase || !playerID || !myPlayer) return false;
+    if (!inTaxPhase || !playerID || !myPlayer || !G.options.revolutions) return false;
     const handJokers = myPlayer.hand.filter((c) => c.rank === 0).length;
     const stagedJokers = myTaxDebt
       ? myTaxDebt.offeredCards.filter((c) => c.rank === 0).length
@@ -191,6 +454,42 @@ export function Board({
 
   const hasMarkedReady = playerID !== null && G.readyPlayers.includes(playerID);
 
+  // Seat takeover goes through the server's seat routes, like the lobby's
+  // bot controls. Players vote out away players and can take their own seat
+  // back from a stand-in bot; spectators may claim any stand-in's seat.
+  const inProgress = !replay && !isGameOver;
+  const voteReplace = inProgress && playerID !== null && credentials
+    ? (id: string) => {
+      voteToReplace(matchID, playerID, credentials, id).catch((e) => showError(toAppError(e)));
+    }
+    : undefined;
+  const claimHandler = inProgress ? onClaimSeat : undefined;
+
+  // Pause votes: any seated player may call one (and withdraw it); bots
+  // abstain and a majority of the other seats decides
+  const turnDeadline = replay || paused ? null : G.turnDeadline;
+  const pauseVote = G.pauseVote;
+  const canVotePause = inProgress && playerID !== null;
+  const hasVotedPause = pauseVote !== null && playerID !== null
+    && [pauseVote.yes, pauseVote.no, pauseVote.abstained].some((ids) => ids.includes(playerID));
+  const pauseVotePrompt = pauseVote && (
+    <div className={styles.pauseVote}>
+      <span>
+        {displayName(pauseVote.requestedBy)} wants to {pauseVote.action} the match
+        ({pauseVote.yes.length} / {pauseVoteMajority(pauseVote, n).needed} votes)
+      </span>
+      {canVotePause && !hasVotedPause && (
+        <>
+          <button className={styles.seatBtn} onClick={() => moves.votePause(true)}>Yes</button>
+          <button className={styles.seatBtn} onClick={() => moves.votePause(false)}>No</button>
+        </>
+      )}
+      {canVotePause && playerID === pauseVote.requestedBy && (
+        <button className={styles.seatBtn} onClick={() => moves.cancelPauseVote()}>Withdraw</button>
+      )}
+    </div>
+  );
+
   // True if this player is involved in any tax debt this round (as payer OR receiver),
   // even after the debt has been resolved. Used to suppress the "no taxation" banner
   // for Dalmuties who have already given back their cards.
@@ -215,17 +514,49 @@ export function Board({
         <div className={styles.meta}>
           <span>Round {isRoundOver ? completedRound : G.roundNumber}</span>
           <span className={styles.phase}>
-            {isRoundOver ? `Round ${completedRound} Complete` : inTaxPhase ? 'Tax Collection' : 'Play'}
+            {isGameOver
+              ? 'Match Over'
+              : isRoundOver ? `Round ${completedRound} Complete` : inTaxPhase ? 'Tax Collection' : 'Play'}
           </span>
           {revolutionAnnouncement && (
             <span className={styles.revolution}>{revolutionAnnouncement}</span>
           )}
+          {spectating && <span className={styles.spectating}>Spectating</span>}
           {isMyTurn && !inTaxPhase && !isRoundOver && (
             <span className={styles.yourTurn}>Your Turn</span>
           )}
+          {canVotePause && !paused && (
+            <button
+              className={styles.headerBtn}
+              disabled={pauseVote !== null || offline}
+              onClick={() => moves.requestPause()}
+            >
+              Pause
+            </button>
+          )}
+          {/* The export would reveal every hand, so only once the match is over */}
+          {!replay && isGameOver && (
+            <button
+              className={styles.headerBtn}
+              onClick={() => {
+                downloadReplay(matchID)
+                  .catch((e) => showError(toAppError(e)));
+              }}
+            >
+              Download replay
+            </button>
+          )}
+          {onLeave && (
+            <button className={styles.headerBtn} onClick={onLeave}>
+              {spectating ? 'Stop watching' : 'Leave match'}
+            </button>
+          )}
         </div>
       </header>
 
+      {connectionBanner}
+      {!paused && pauseVotePrompt}
+
       <div className={styles.main}>
         {/* Top: players ranked 2–topCount */}
         <div className={styles.topPlayers}>
@@ -237,6 +568,12 @@ export function Board({
             finishOrder={G.finishOrder}
             playerIDs={positions.top}
             passedPlayers={passedPlayersForList}
+            scores={G.scores}
+            turnDeadline={turnDeadline}
+            revealHands={revealHands}
+            emotes={emotes}
+            onVoteReplace={voteReplace}
+            onClaimSeat={claimHandler}
             horizontal
           />
         </div>
@@ -251,6 +588,12 @@ export function Board({
             finishOrder={G.finishOrder}
             playerIDs={positions.left}
             passedPlayers={passedPlayersForList}
+            scores={G.scores}
+            turnDeadline={turnDeadline}
+            revealHands={revealHands}
+            emotes={emotes}
+            onVoteReplace={voteReplace}
+            onClaimSeat={claimHandler}
           />
         </div>
 
@@ -268,6 +611,12 @@ export function Board({
             finishOrder={G.finishOrder}
             playerIDs={positions.right}
             passedPlayers={passedPlayersForList}
+            scores={G.scores}
+            turnDeadline={turnDeadline}
+            revealHands={revealHands}
+            emotes={emotes}
+            onVoteReplace={voteReplace}
+            onClaimSeat={claimHandler}
           />
         </div>
 
@@ -281,17 +630,45 @@ export function Board({
             finishOrder={G.finishOrder}
             playerIDs={positions.bottom}
             passedPlayers={passedPlayersForList}
+            scores={G.scores}
+            turnDeadline={turnDeadline}
+            revealHands={revealHands}
+            emotes={emotes}
+            onVoteReplace={voteReplace}
+            onClaimSeat={claimHandler}
             horizontal
           />
         </div>
       </div>
 
+      {/* Table chat; spectators can read along but not send */}
+      {chatDrawer}
+      {toastStack}
+
+      {/* Play-by-play of the round in progress (or the one just finished) */}
+      <TrickHistory
+        eventLog={G.eventLog}
+        round={isRoundOver ? completedRound : G.roundNumber}
+        displayName={displayName}
+      />
+
+      {/* Optional rank counts for this round, from the player's point of view */}
+      {!replay && myPlayer && (
+        <CardTracker
+          eventLog={G.eventLog}
+          round={isRoundOver ? completedRound : G.roundNumber}
+          hand={myPlayer.hand}
+        />
+      )}
+
       {/* Hand: hidden during round-over since the round is complete */}
       {!isRoundOver && myPlayer && (
         <Hand
           cards={myPlayer.hand}
           isMyTurn={isMyTurn}
           currentTrick={G.currentTrick}
+          soloJesters={G.options.soloJesters}
+          offline={offline}
           inTaxPhase={inTaxPhase}
           taxDebt={myTaxDebt}
           taxReceivable={myTaxReceivable}
@@ -300,35 +677,75 @@ export function Board({
           hasPendingTax={hasPendingTax}
           onPlayCards={(ids) => moves.playCards(ids)}
           onPass={() => moves.pass()}
-          onGiveBackCards={(ids) => moves.giveBackCards(playerID, ids)}
+          onGiveBackCards={(ids) => moves.giveBackCards(ids)}
           canDeclareRevolution={canDeclareRevolution}
-          onDeclareRevolution={() => moves.declareRevolution(playerID)}
+          onDeclareRevolution={() => moves.declareRevolution()}
           hasMarkedReady={hasMarkedReady}
-          onMarkReady={() => moves.markReady(playerID)}
+          onMarkReady={() => moves.markReady()}
         />
       )}
 
+      {/* Paused: the board is blocked until a resume vote passes */}
+      {paused && inProgress && (
+        <div className={styles.pausedOverlay}>
+          <div className={styles.roundOverBox}>
+            <h2 className={styles.roundOverTitle}>Paused</h2>
+            {pauseVotePrompt || (canVotePause
+              ? <button className={styles.startBtn} onClick={() => moves.requestPause()}>Vote to resume</button>
+              : <p className={styles.countdownMsg}>Waiting for the players to resume…</p>)}
+          </div>
+        </div>
+      )}
+
+      {/* Final results: shown once the match length has been reached */}
+      {gameover && (
+        <div className={styles.roundOverOverlay}>
+          <div className={styles.roundOverBox}>
+            <h2 className={styles.roundOverTitle}>Final Standings</h2>
+            <ol className={styles.finishList}>
+              {gameover.standings.map((standing) => (
+                <li key={standing.playerID} className={styles.finishItem}>
+                  <span className={styles.finishPos}>#{standing.position}</span>
+                  <span className={styles.finishName}>{displayName(standing.playerID)}</span>
+                  {standing.position === 1 && <span className={styles.finishTitle}>Winner</span>}
+                  <span className={styles.finishScore}>{standing.score} pts</span>
+                </li>
+              ))}
+            </ol>
+            <p className={styles.countdownMsg}>
+              Match complete after {completedRound} round{completedRound === 1 ? '' : 's'}.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Round-over overlay: transparent panel floats over the board */}
-      {isRoundOver && (
+      {isRoundOver && !gameover && (
         <div className={styles.roundOverOverlay}>
           <div className={styles.roundOverBox}>
             <h2 className={styles.roundOverTitle}>Round {completedRound} Results</h2>
             <ol className={styles.finishList}>
               {G.finishOrder.map((id, i) => {
-                const name = matchData?.find((p) => String(p.id) === id)?.name ?? `Player ${id}`;
+                const name = displayName(id);
                 const title = getSocialTitle(i + 1, n);
+                const earned = pointsForPosition(i + 1, n, G.options.pointsTable);
                 return (
                   <li key={id} className={styles.finishItem}>
                     <span className={styles.finishPos}>#{i + 1}</span>
                     <span className={styles.finishName}>{name}</span>
                     {title && <span className={styles.finishTitle}>{title}</span>}
+                    <span className={styles.finishScore}>
+                      +{earned} · {G.scores[id] ?? 0} pts
+                    </span>
                   </li>
                 );
               })}
             </ol>
-            <p className={styles.countdownMsg}>
-              Next round starting in <strong>{countdown}</strong>s…
-            </p>
+            {!replay && (
+              <p className={styles.countdownMsg}>
+                Next round starting in <strong>{countdown}</strong>s…
+              </p>
+            )}
           </div>
         </div>
       )}
@@ -9,6 +9,8 @@ interface CardProps {
   faceDown?: boolean;
   /** Green glow highlight for cards newly received during taxation. */
   highlighted?: boolean;
+  /** Faded out: the card can't be part of any legal play right now. */
+  dimmed?: boolean;
 }
 
 /**
@@ -33,7 +35,7 @@ function getCardImageUrl(card: Card): string {
   return `/cards/${rankStr}-${copyStr}.png`;
 }
 
-export function CardComponent({ card, selected, onClick, interactive, faceDown, highlighted }: CardProps) {
+export function CardComponent({ card, selected, onClick, interactive, faceDown, highlighted, dimmed }: CardProps) {
   const src = faceDown ? '/cards/back.png' : getCardImageUrl(card);
   const isJester = card.rank === 0;
   const altText = faceDown
@@ -49,6 +51,7 @@ export function CardComponent({ card, selected, onClick, interactive, faceDown,
         selected ? styles.selected : '',
         interactive ? styles.interactive : '',
         highlighted ? styles.highlighted : '',
+        dimmed ? styles.dimmed : '',
       ]
         .filter(Boolean)
         .join(' ')}
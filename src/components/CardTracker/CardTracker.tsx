@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import type { Card, GameEvent } from '../../game/types';
+import { tallyCards } from '../../game/tracker';
+import styles from './CardTracker.module.css';
+
+// Whether the panel is open, remembered per browser
+const TRACKER_OPEN_KEY = 'dalmuti.cardTracker';
+
+function loadTrackerOpen(): boolean {
+  return localStorage.getItem(TRACKER_OPEN_KEY) === 'true';
+}
+
+interface CardTrackerProps {
+  eventLog: GameEvent[];
+  /** Round to count; plays from earlier rounds are left out. */
+  round: number;
+  /** The viewer's own hand. */
+  hand: Card[];
+}
+
+/**
+ * Collapsible side panel counting each rank: how many have been played this
+ * round, how many the viewer holds, and how many are still out among the
+ * opponents.
+ */
+export function CardTracker({ eventLog, round, hand }: CardTrackerProps) {
+  const [open, setOpen] = useState(loadTrackerOpen);
+  const toggle = () => {
+    setOpen(!open);
+    localStorage.setItem(TRACKER_OPEN_KEY, String(!open));
+  };
+  const tallies = tallyCards(eventLog, round, hand);
+
+  return (
+    <aside className={styles.panel}>
+      <button className={styles.toggle} onClick={toggle} aria-expanded={open}>
+        {open ? 'Hide tracker' : 'Card tracker'}
+      </button>
+      {open && (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Rank</th>
+              <th title="Played this round">Played</th>
+              <th title="In your hand">Mine</th>
+              <th title="Still held by opponents">Out</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tallies.map((t) => (
+              <tr key={t.rank} className={t.out === 0 ? styles.gone : undefined}>
+                <td className={t.rank === 0 ? styles.jester : undefined}>
+                  {t.rank === 0 ? 'Jester' : t.rank} <span className={styles.total}>/{t.total}</span>
+                </td>
+                <td>{t.played}</td>
+                <td>{t.mine}</td>
+                <td className={styles.out}>{t.out}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </aside>
+  );
+}
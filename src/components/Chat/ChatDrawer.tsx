@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react';
+import type { FormEvent } from 'react';
+import type { ChatMessage } from 'boardgame.io';
+import { CHAT_MAX_LENGTH, EMOTES, isValidChatPayload } from '../../game/chat';
+import type { ChatPayload } from '../../game/chat';
+import styles from './ChatDrawer.module.css';
+
+// How long an emote bubble stays next to its sender
+const EMOTE_BUBBLE_MS = 3000;
+
+interface ChatDrawerProps {
+  messages: ChatMessage[];
+  displayName: (playerID: string) => string;
+  /** Omitted for spectators, who can read but not send. */
+  onSend?: (payload: ChatPayload) => void;
+}
+
+/**
+ * The latest emote from each sender, cleared again after EMOTE_BUBBLE_MS.
+ * Keyed by playerID for PlayerList's bubbles.
+ */
+export function useEmoteBubbles(messages: ChatMessage[]): Record<string, string> {
+  const [bubbles, setBubbles] = useState<Record<string, { id: string; emote: string }>>({});
+  const seen = useRef(messages.length);
+  const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+  useEffect(() => () => timers.current.forEach(clearTimeout), []);
+
+  useEffect(() => {
+    const fresh = messages.slice(seen.current);
+    seen.current = messages.length;
+    for (const { id, sender, payload } of fresh) {
+      if (!isValidChatPayload(payload) || payload.kind !== 'emote') continue;
+      setBubbles((b) => ({ ...b, [sender]: { id, emote: payload.emote } }));
+      timers.current.push(setTimeout(() => {
+        setBubbles((b) => {
+          if (b[sender]?.id !== id) return b;
+          const { [sender]: _, ...rest } = b;
+          return rest;
+        });
+      }, EMOTE_BUBBLE_MS));
+    }
+  }, [messages]);
+
+  return Object.fromEntries(Object.entries(bubbles).map(([id, b]) => [id, b.emote]));
+}
+
+/** Collapsible table chat with a row of quick reactions. */
+export function ChatDrawer({ messages, displayName, onSend }: ChatDrawerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  // Messages already seen with the drawer open; the rest count as unread
+  const [readCount, setReadCount] = useState(messages.length);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setReadCount(messages.length);
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [open, messages.length]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || !onSend) return;
+    onSend({ kind: 'text', text });
+    setDraft('');
+  };
+
+  const unread = messages.length - readCount;
+
+  return (
+    <aside className={open ? styles.drawerOpen : styles.drawer}>
+      {open && (
+        <div className={styles.panel}>
+          <div ref={listRef} className={styles.list}>
+            {messages.length === 0 && <p className={styles.empty}>No messages yet.</p>}
+            {messages.map(({ id, sender, payload }) => isValidChatPayload(payload) && (
+              <p key={id} className={payload.kind === 'emote' ? styles.emote : styles.message}>
+                <span className={styles.sender}>{displayName(sender)}</span>
+                {payload.kind === 'emote' ? payload.emote : payload.text}
+              </p>
+            ))}
+          </div>
+          {onSend && (
+            <form className={styles.form} onSubmit={handleSubmit}>
+              <input
+                className={styles.input}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={CHAT_MAX_LENGTH}
+                placeholder="Say something…"
+              />
+              <button className={styles.sendBtn} type="submit" disabled={!draft.trim()}>Send</button>
+            </form>
+          )}
+        </div>
+      )}
+      <div className={styles.bar}>
+        <button className={styles.toggle} onClick={() => setOpen((o) => !o)} aria-expanded={open}>
+          {open ? 'Hide chat' : unread > 0 ? `Chat (${unread})` : 'Chat'}
+        </button>
+        {onSend && EMOTES.map((emote) => (
+          <button key={emote} className={styles.emoteBtn} onClick={() => onSend({ kind: 'emote', emote })}>
+            {emote}
+          </button>
+        ))}
+      </div>
+    </aside>
+  );
+}
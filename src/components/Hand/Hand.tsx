@@ -1,12 +1,32 @@
 import { useEffect, useRef, useState } from 'react';
-import type { Card, Trick, TaxDebt } from '../../game/types';
+import type { Card, Trick, TaxDebt, SoloJesterRule } from '../../game/types';
+import {
+  describeRejection,
+  getLegalPlays,
+  getPlayableCardIds,
+  getWeakestPlay,
+  pickRankGroup,
+  validatePlay,
+} from '../../game/rules';
 import { CardComponent } from '../Card/Card';
 import styles from './Hand.module.css';
 
+// Whether picking a rank group or asking for a suggestion may spend Jesters,
+// remembered across matches in this browser
+const AUTO_JESTERS_KEY = 'dalmuti.autoJesters';
+
+function loadAutoJesters(): boolean {
+  return localStorage.getItem(AUTO_JESTERS_KEY) !== 'false';
+}
+
 interface HandProps {
   cards: Card[];
   isMyTurn: boolean;
   currentTrick: Trick | null;
+  /** The match's Jester rule, for checking plays before they are sent. */
+  soloJesters: SoloJesterRule;
+  /** True while the socket is down: every action waits for the connection. */
+  offline: boolean;
   inTaxPhase: boolean;
   /** Debt where this player is the payer (Peon). Their best cards were auto-staged. */
   taxDebt: TaxDebt | null;
@@ -33,6 +53,8 @@ export function Hand({
   cards,
   isMyTurn,
   currentTrick,
+  soloJesters,
+  offline,
   inTaxPhase,
   taxDebt,
   taxReceivable,
@@ -48,6 +70,7 @@ export function Hand({
   onMarkReady,
 }: HandProps) {
   const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [autoJesters, setAutoJesters] = useState(loadAutoJesters);
 
   // Track card IDs from the previous render to detect newly received tax cards.
   // Starts as null so the very first render (initial hand) is never highlighted.
@@ -91,6 +114,18 @@ export function Hand({
     });
   };
 
+  const toggleAutoJesters = (on: boolean) => {
+    setAutoJesters(on);
+    localStorage.setItem(AUTO_JESTERS_KEY, String(on));
+  };
+
+  // Pick a whole rank group at once; picking the same group again clears it
+  const selectGroup = (rank: number) => {
+    const ids = pickRankGroup(cards, rank, currentTrick, autoJesters);
+    const same = ids.length === selected.size && ids.every((id) => selected.has(id));
+    setSelected(new Set(same ? [] : ids));
+  };
+
   const handlePlay = () => {
     if (selected.size === 0) return;
     onPlayCards([...selected]);
@@ -114,16 +149,42 @@ export function Hand({
     if (b.rank === 0) return 1;
     return a.rank - b.rank;
   });
+  // ...and lay it out in rank groups, each selectable as a whole
+  const rankGroups: { rank: number; cards: Card[] }[] = [];
+  for (const card of sortedCards) {
+    const last = rankGroups[rankGroups.length - 1];
+    if (last?.rank === card.rank) last.cards.push(card);
+    else rankGroups.push({ rank: card.rank, cards: [card] });
+  }
 
   // offeredCards is stripped from the Dalmuti's playerView, so use count > 0
   // (guaranteed by Board.tsx) as the signal that action is required.
   const isDalmuti = taxReceivable !== null;
   const isPeon = taxDebt !== null;
 
-  const canPlay = isMyTurn && !inTaxPhase && selected.size > 0;
-  const canPass = isMyTurn && !inTaxPhase && currentTrick !== null;
+  // On our turn, check plays locally so a bad one is explained, not sent
+  const playing = isMyTurn && !inTaxPhase;
+  const playable = playing ? getPlayableCardIds(cards, currentTrick, soloJesters) : null;
+  const playCheck = playing && selected.size > 0
+    ? validatePlay([...selected], cards, currentTrick, soloJesters)
+    : null;
+  const playHint = playCheck && !playCheck.ok
+    ? describeRejection(playCheck.reason, currentTrick)
+    : playable?.size === 0 && currentTrick !== null
+      ? 'Nothing in your hand beats this trick — you have to pass.'
+      : null;
+
+  const canPlay = !offline && playCheck?.ok === true;
+  // The weakest legal play, leaving Jesters alone unless they're automatic
+  const suggestion = playing
+    ? getWeakestPlay(
+      getLegalPlays(cards, currentTrick, soloJesters).filter((p) => autoJesters || p.jesters === 0),
+      currentTrick === null,
+    )
+    : null;
+  const canPass = !offline && isMyTurn && !inTaxPhase && currentTrick !== null;
   // Exchange only unlocks after every player has agreed to the tax
-  const canGiveBack = isDalmuti && allPlayersReady && selected.size === taxReceivable!.count;
+  const canGiveBack = !offline && isDalmuti && allPlayersReady && selected.size === taxReceivable!.count;
 
   // Cards are interactive during play (on your turn) or when Dalmuti can give back
   const cardsInteractive = (!inTaxPhase && isMyTurn) || isDalmuti;
@@ -184,18 +245,32 @@ export function Hand({
       )}
 
       <div className={styles.cards}>
-        {sortedCards.map((card) => (
-          <CardComponent
-            key={card.id}
-            card={card}
-            selected={selected.has(card.id)}
-            onClick={() => toggleCard(card.id)}
-            interactive={cardsInteractive}
-            highlighted={highlightedIds.has(card.id)}
-          />
+        {rankGroups.map((group) => (
+          <div key={group.rank} className={styles.rankGroup}>
+            <div className={styles.groupCards}>
+              {group.cards.map((card) => (
+                <CardComponent
+                  key={card.id}
+                  card={card}
+                  selected={selected.has(card.id)}
+                  onClick={() => toggleCard(card.id)}
+                  interactive={cardsInteractive}
+                  highlighted={highlightedIds.has(card.id)}
+                  dimmed={playable !== null && !playable.has(card.id)}
+                />
+              ))}
+            </div>
+            {playing && (
+              <button className={styles.groupBtn} onClick={() => selectGroup(group.rank)} disabled={offline}>
+                {group.rank === 0 ? 'Jesters' : `${group.rank}s`} ×{group.cards.length}
+              </button>
+            )}
+          </div>
         ))}
       </div>
 
+      {playHint && <p className={styles.playHint}>{playHint}</p>}
+
       <div className={styles.actions}>
         {!inTaxPhase && (
           <>
@@ -203,6 +278,7 @@ export function Hand({
               className={styles.playBtn}
               onClick={handlePlay}
               disabled={!canPlay}
+              title={playHint ?? undefined}
             >
               Play ({selected.size})
             </button>
@@ -213,6 +289,21 @@ export function Hand({
             >
               Pass
             </button>
+            <button
+              className={styles.suggestBtn}
+              onClick={() => suggestion && setSelected(new Set(suggestion.cardIds))}
+              disabled={!suggestion || offline}
+            >
+              Suggest
+            </button>
+            <label className={styles.jesterToggle}>
+              <input
+                type="checkbox"
+                checked={autoJesters}
+                onChange={(e) => toggleAutoJesters(e.target.checked)}
+              />
+              Use Jesters automatically
+            </label>
           </>
         )}
         {/* Give Back only becomes clickable once all players have agreed */}
@@ -226,7 +317,7 @@ export function Hand({
           </button>
         )}
         {showReadyBtn && (
-          <button className={styles.readyBtn} onClick={onMarkReady}>
+          <button className={styles.readyBtn} onClick={onMarkReady} disabled={offline}>
             {readyBtnLabel}
           </button>
         )}
@@ -244,6 +335,7 @@ export function Hand({
           <button
             className={styles.revolutionBtn}
             onClick={onDeclareRevolution}
+            disabled={offline}
           >
             Declare Revolution
           </button>
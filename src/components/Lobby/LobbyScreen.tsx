@@ -1,33 +1,326 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { LobbyClient } from 'boardgame.io/client';
 import { DalmutiClient } from '../../client/DalmutiClient';
+import { clearSession, loadSession, saveSession } from '../../client/session';
+import type { MatchSession } from '../../client/session';
+import { inviteLink, matchPath, navigate, parseRoute, watchPath } from '../../client/routes';
+import { checkWatchPassword, claimSeat, joinQuickPlay, leaveQuickPlay, passwordInit, pollQuickPlay } from '../../client/api';
+import type { QuickPlayStatus } from '../../client/api';
+import { toAppError } from '../../client/errors';
+import { appError } from '../../game/errors';
+import { isStandIn } from '../../game/seats';
+import { getMatchOwner } from '../../game/owner';
+import { DEFAULT_OPTIONS } from '../../game/options';
+import type { MatchLength, MatchOptions, SoloJesterRule } from '../../game/types';
+import { MatchBrowser } from './MatchBrowser';
+import { ToastStack, useToasts } from '../Toast/Toast';
 import styles from './LobbyScreen.module.css';
 
 interface LobbyScreenProps {
   serverURL: string;
 }
 
-interface MatchInfo {
-  matchID: string;
-  playerID: string;
-  credentials: string;
+type View = 'lobby' | 'queue' | 'waiting' | 'game' | 'watch';
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.round(value) || 0));
+
+// Per-turn time limits offered in the settings panel (validated as 10–300 s)
+const TURN_CLOCK_CHOICES = [15, 30, 60, 90, 120];
+
+const TABLE_SIZES = [4, 5, 6, 7, 8];
+
+interface SettingsPanelProps {
+  options: MatchOptions;
   numPlayers: number;
+  onChange: (options: MatchOptions) => void;
 }
 
-type View = 'lobby' | 'waiting' | 'game';
+/** House-rule settings for a new match, sent to createMatch as setupData. */
+function SettingsPanel({ options, numPlayers, onChange }: SettingsPanelProps) {
+  const update = (patch: Partial<MatchOptions>) => {
+    const next = { ...options, ...patch };
+    // Lesser tax can never exceed the Great Dalmuti's tax
+    next.lesserTax = Math.min(next.lesserTax, next.greatTax);
+    onChange(next);
+  };
+
+  const length = options.matchLength;
+  const standardTable = Array.from({ length: numPlayers }, (_, i) => numPlayers - 1 - i);
+  const [pointsText, setPointsText] = useState('');
+  // Blank means the standard table; otherwise one number per finish position.
+  const handlePointsChange = (text: string) => {
+    setPointsText(text);
+    const entries = text.split(',').map((t) => t.trim()).filter(Boolean);
+    update({
+      pointsTable: entries.length > 0 ? entries.map((t) => clamp(Number(t), 0, 100)) : null,
+    });
+  };
+  const pointsMismatch = options.pointsTable !== null && options.pointsTable.length !== numPlayers;
+  const setLengthType = (type: MatchLength['type']) => {
+    if (type === 'rounds') update({ matchLength: { type, rounds: 5 } });
+    else if (type === 'points') update({ matchLength: { type, target: 5 * (numPlayers - 1) } });
+    else update({ matchLength: { type } });
+  };
+
+  return (
+    <details className={styles.settings}>
+      <summary className={styles.settingsSummary}>House rules</summary>
+      <div className={styles.settingsGrid}>
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="greatTax">Great tax</label>
+          <input
+            id="greatTax"
+            className={styles.input}
+            type="number"
+            min={0}
+            max={4}
+            value={options.greatTax}
+            onChange={(e) => update({ greatTax: clamp(Number(e.target.value), 0, 4) })}
+          />
+        </div>
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="lesserTax">Lesser tax</label>
+          <input
+            id="lesserTax"
+            className={styles.input}
+            type="number"
+            min={0}
+            max={options.greatTax}
+            value={options.lesserTax}
+            onChange={(e) => update({ lesserTax: clamp(Number(e.target.value), 0, options.greatTax) })}
+          />
+        </div>
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="soloJesters">Jesters alone</label>
+          <select
+            id="soloJesters"
+            className={styles.input}
+            value={options.soloJesters}
+            onChange={(e) => update({ soloJesters: e.target.value as SoloJesterRule })}
+          >
+            <option value="weakest">Count as 13</option>
+            <option value="forbidden">Not allowed</option>
+          </select>
+        </div>
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="roundOverSeconds">Results (s)</label>
+          <input
+            id="roundOverSeconds"
+            className={styles.input}
+            type="number"
+            min={5}
+            max={120}
+            value={options.roundOverSeconds}
+            onChange={(e) => update({ roundOverSeconds: clamp(Number(e.target.value), 5, 120) })}
+          />
+        </div>
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="turnSeconds">Turn clock</label>
+          <select
+            id="turnSeconds"
+            className={styles.input}
+            value={options.turnSeconds ?? ''}
+            onChange={(e) => update({ turnSeconds: e.target.value ? Number(e.target.value) : null })}
+          >
+            <option value="">Off</option>
+            {TURN_CLOCK_CHOICES.map((s) => (
+              <option key={s} value={s}>{s} s</option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="matchLength">Match length</label>
+          <select
+            id="matchLength"
+            className={styles.input}
+            value={length.type}
+            onChange={(e) => setLengthType(e.target.value as MatchLength['type'])}
+          >
+            <option value="endless">Endless</option>
+            <option value="rounds">Rounds</option>
+            <option value="points">First to points</option>
+          </select>
+        </div>
+        {length.type === 'rounds' && (
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="matchRounds">Rounds</label>
+            <input
+              id="matchRounds"
+              className={styles.input}
+              type="number"
+              min={1}
+              max={50}
+              value={length.rounds}
+              onChange={(e) => update({
+                matchLength: { type: 'rounds', rounds: clamp(Number(e.target.value), 1, 50) },
+              })}
+            />
+          </div>
+        )}
+        {length.type === 'points' && (
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="matchTarget">Points</label>
+            <input
+              id="matchTarget"
+              className={styles.input}
+              type="number"
+              min={1}
+              max={500}
+              value={length.target}
+              onChange={(e) => update({
+                matchLength: { type: 'points', target: clamp(Number(e.target.value), 1, 500) },
+              })}
+            />
+          </div>
+        )}
+      </div>
+      <div className={styles.field}>
+        <label className={styles.label} htmlFor="pointsTable">Points per place (1st → last)</label>
+        <input
+          id="pointsTable"
+          className={styles.input}
+          type="text"
+          value={pointsText}
+          onChange={(e) => handlePointsChange(e.target.value)}
+          placeholder={standardTable.join(', ')}
+        />
+        {pointsMismatch && (
+          <span className={styles.fieldHint}>Enter {numPlayers} values, one per player.</span>
+        )}
+      </div>
+      <label className={styles.checkboxField}>
+        <input
+          type="checkbox"
+          checked={options.revolutions}
+          onChange={(e) => update({ revolutions: e.target.checked })}
+        />
+        Allow revolutions
+      </label>
+      <label className={styles.checkboxField}>
+        <input
+          type="checkbox"
+          checked={options.spectatorsSeeHands}
+          onChange={(e) => update({ spectatorsSeeHands: e.target.checked })}
+        />
+        Spectators see all hands
+      </label>
+    </details>
+  );
+}
 
 export function LobbyScreen({ serverURL }: LobbyScreenProps) {
   const [view, setView] = useState<View>('lobby');
   const [playerName, setPlayerName] = useState('');
   const [numPlayers, setNumPlayers] = useState(4);
+  const [options, setOptions] = useState<MatchOptions>(DEFAULT_OPTIONS);
   const [matchIDInput, setMatchIDInput] = useState('');
-  const [matchInfo, setMatchInfo] = useState<MatchInfo | null>(null);
-  const [error, setError] = useState('');
+  // Private matches are unlisted; the password is optional
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [createPassword, setCreatePassword] = useState('');
+  const [joinPassword, setJoinPassword] = useState('');
+  // Set once a join attempt finds the match is password protected
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [quickPlaySize, setQuickPlaySize] = useState(4);
+  const [ticketID, setTicketID] = useState<string | null>(null);
+  const [queueStatus, setQueueStatus] = useState<QuickPlayStatus | null>(null);
+  const [matchInfo, setMatchInfo] = useState<MatchSession | null>(null);
+  // Match being spectated; no seat or credentials involved
+  const [watchID, setWatchID] = useState<string | null>(null);
+  // A private match's password, checked before watching and sent by the client
+  const [watchPassword, setWatchPassword] = useState('');
+  // Seat saved by an earlier visit, shown as "Rejoin game" once it checks out
+  const [savedSession, setSavedSession] = useState<MatchSession | null>(null);
+  // A bot stands in for the saved seat: its old credentials no longer work,
+  // so the game opens as a spectator until the seat is claimed back
+  const [seatStandIn, setSeatStandIn] = useState(false);
+  const { toasts, showError, dismiss } = useToasts();
   const [loading, setLoading] = useState(false);
   const [joinedCount, setJoinedCount] = useState(1); // at least the creator
+  const [ownerID, setOwnerID] = useState('0');
   const [copied, setCopied] = useState(false);
+  // Match ID from an invite link; the lobby then only asks for a name
+  const [invite, setInvite] = useState<string | null>(null);
+  // False until the URL the page was opened at has been applied
+  const [routed, setRouted] = useState(false);
+
+  const lobbyClient = useMemo(() => new LobbyClient({ server: serverURL }), [serverURL]);
 
-  const lobbyClient = new LobbyClient({ server: serverURL });
+  // Show the view named by a URL. A match URL for the saved seat goes back
+  // into that match; any other match URL is an invite.
+  const applyRoute = (pathname: string, session: MatchSession | null) => {
+    const route = parseRoute(pathname);
+    if (route.name === 'watch') {
+      // Checked like the Watch button, which asks for a private match's password
+      setMatchIDInput(route.matchID);
+      setView('lobby');
+      handleWatch(route.matchID);
+    } else if (route.name === 'match' && session?.matchID === route.matchID) {
+      setMatchInfo(session);
+      setView(route.play ? 'game' : 'waiting');
+    } else if (route.name === 'match') {
+      setInvite(route.matchID);
+      setMatchIDInput(route.matchID);
+      setView('lobby');
+    } else {
+      setInvite(null);
+      setView('lobby');
+    }
+    setRouted(true);
+  };
+
+  // On load, offer to rejoin a saved seat — unless its match no longer exists
+  // or the seat was taken away
+  useEffect(() => {
+    const session = loadSession();
+    if (!session) {
+      applyRoute(window.location.pathname, null);
+      return;
+    }
+    lobbyClient.getMatch('great-dalmuti', session.matchID)
+      .then((match) => {
+        const seat = match.players.find((p) => String(p.id) === session.playerID);
+        if (!seat?.name) throw new Error('Seat no longer held');
+        setSeatStandIn(isStandIn(seat));
+        setSavedSession(session);
+        applyRoute(window.location.pathname, session);
+      })
+      .catch(() => {
+        clearSession();
+        applyRoute(window.location.pathname, null);
+      });
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Browser back/forward moves between the views
+  useEffect(() => {
+    const onPopState = () => applyRoute(window.location.pathname, loadSession());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Keep the address bar in step with the current view
+  useEffect(() => {
+    if (!routed) return;
+    if (view === 'watch' && watchID) {
+      navigate(watchPath(watchID));
+    } else if (view !== 'lobby' && matchInfo) {
+      navigate(matchPath(matchInfo.matchID, view === 'game'));
+    } else if (view === 'lobby') {
+      navigate(invite ? matchPath(invite) : '/');
+    }
+  }, [routed, view, matchInfo, invite, watchID]);
+
+  // Remember the seat and move on to the waiting room
+  const enterMatch = (info: MatchSession, joined: number) => {
+    saveSession(info);
+    setSavedSession(null);
+    setInvite(null);
+    setMatchInfo(info);
+    setSeatStandIn(false);
+    setJoinedCount(joined);
+    setOwnerID('0');
+    setView('waiting');
+  };
 
   // Poll the match roster while in the waiting view so the player count stays fresh.
   const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -39,7 +332,13 @@ export function LobbyScreen({ serverURL }: LobbyScreenProps) {
     const poll = async () => {
       try {
         const match = await lobbyClient.getMatch('great-dalmuti', matchInfo.matchID);
+        if (!match.players.find((p) => String(p.id) === matchInfo.playerID)?.name) {
+          forgetMatch();
+          showError(appError('removed'));
+          return;
+        }
         setJoinedCount(match.players.filter((p: { name?: string }) => p.name).length);
+        setOwnerID(getMatchOwner(match));
       } catch {
         // ignore transient fetch errors
       }
@@ -51,78 +350,299 @@ export function LobbyScreen({ serverURL }: LobbyScreenProps) {
     };
   }, [view, matchInfo]);
 
+  // Poll the quick-play ticket until the matchmaker seats us
+  useEffect(() => {
+    if (view !== 'queue' || !ticketID) return;
+    const poll = async () => {
+      try {
+        const status = await pollQuickPlay(ticketID);
+        setQueueStatus(status);
+        if (status.status === 'matched') {
+          const { matchID, playerID, credentials, numPlayers } = status;
+          setTicketID(null);
+          enterMatch({ matchID, playerID, credentials, numPlayers }, numPlayers);
+          setView('game');
+        }
+      } catch {
+        // The ticket expired (e.g. the tab slept); start over from the lobby
+        setTicketID(null);
+        setView('lobby');
+        showError(appError('queueExpired'));
+      }
+    };
+    poll();
+    const interval = setInterval(poll, 2000);
+    return () => clearInterval(interval);
+  }, [view, ticketID]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // A custom points table needs exactly one entry per player
+  const pointsTableValid = options.pointsTable === null || options.pointsTable.length === numPlayers;
+
   const handleCreate = async () => {
     if (!playerName.trim()) return;
     setLoading(true);
-    setError('');
     try {
-      const { matchID } = await lobbyClient.createMatch('great-dalmuti', { numPlayers });
+      const init = passwordInit(isPrivate ? createPassword : '');
+      const { matchID } = await lobbyClient.createMatch('great-dalmuti', {
+        numPlayers,
+        setupData: options,
+        unlisted: isPrivate,
+      }, init);
       const { playerCredentials } = await lobbyClient.joinMatch('great-dalmuti', matchID, {
         playerID: '0',
         playerName: playerName.trim(),
-      });
-      setMatchInfo({ matchID, playerID: '0', credentials: playerCredentials, numPlayers });
-      setJoinedCount(1);
-      setView('waiting');
+      }, init);
+      enterMatch({ matchID, playerID: '0', credentials: playerCredentials, numPlayers }, 1);
     } catch (e) {
-      setError(String(e));
+      showError(toAppError(e));
     } finally {
       setLoading(false);
     }
   };
 
-  const handleJoin = async () => {
-    if (!playerName.trim() || !matchIDInput.trim()) return;
+  const handleQuickPlay = async () => {
+    if (!playerName.trim()) return;
     setLoading(true);
-    setError('');
     try {
-      const match = await lobbyClient.getMatch('great-dalmuti', matchIDInput.trim());
+      const { ticketID } = await joinQuickPlay(playerName.trim(), quickPlaySize);
+      setQueueStatus(null);
+      setTicketID(ticketID);
+      setView('queue');
+    } catch (e) {
+      showError(toAppError(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelQueue = () => {
+    if (ticketID) leaveQuickPlay(ticketID).catch(console.error);
+    setTicketID(null);
+    setView('lobby');
+  };
+
+  const joinByID = async (matchID: string) => {
+    if (!playerName.trim() || !matchID) return;
+    setLoading(true);
+    let hasPassword = false;
+    try {
+      const match = await lobbyClient.getMatch('great-dalmuti', matchID);
       const freeSlot = match.players.find((p: { id: number; name?: string }) => !p.name);
       if (!freeSlot) {
-        setError('This game is full.');
+        showError(appError('matchFull'));
+        return;
+      }
+      // Flag added by the server in place of the stored password hash
+      hasPassword = (match as { hasPassword?: boolean }).hasPassword === true;
+      if (hasPassword && !joinPassword) {
+        setNeedsPassword(true);
+        showError(appError('passwordRequired'));
         return;
       }
       const { playerCredentials } = await lobbyClient.joinMatch(
         'great-dalmuti',
-        matchIDInput.trim(),
-        { playerID: String(freeSlot.id), playerName: playerName.trim() }
+        matchID,
+        { playerID: String(freeSlot.id), playerName: playerName.trim() },
+        passwordInit(joinPassword),
       );
       const joined = match.players.filter((p: { name?: string }) => p.name).length + 1;
-      setMatchInfo({
-        matchID: matchIDInput.trim(),
+      enterMatch({
+        matchID,
         playerID: String(freeSlot.id),
         credentials: playerCredentials,
         numPlayers: match.players.length,
-      });
-      setJoinedCount(joined);
-      setView('waiting');
+      }, joined);
+    } catch (e) {
+      showError(toAppError(e, { 409: 'seatTaken', ...(hasPassword && { 403: 'wrongPassword' }) }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleJoin = () => joinByID(matchIDInput.trim());
+
+  // Joining from the match browser: remember the ID in case a password is asked
+  const handleBrowserJoin = (matchID: string) => {
+    setMatchIDInput(matchID);
+    setNeedsPassword(false);
+    joinByID(matchID);
+  };
+
+  const handleWatch = async (matchID = matchIDInput.trim()) => {
+    if (!matchID) return;
+    setLoading(true);
+    let hasPassword = false;
+    try {
+      const match = await lobbyClient.getMatch('great-dalmuti', matchID);
+      hasPassword = (match as { hasPassword?: boolean }).hasPassword === true;
+      if (hasPassword && !joinPassword) {
+        setNeedsPassword(true);
+        showError(appError('passwordRequired'));
+        return;
+      }
+      if (hasPassword) await checkWatchPassword(matchID, joinPassword);
+      setWatchPassword(hasPassword ? joinPassword : '');
+      setWatchID(matchID);
+      setView('watch');
+    } catch (e) {
+      showError(toAppError(e, hasPassword ? { 403: 'wrongPassword' } : {}));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStopWatching = () => {
+    setWatchID(null);
+    setWatchPassword('');
+    setView('lobby');
+  };
+
+  // Take over a stand-in bot's seat and play on from there. Our own saved
+  // seat is claimed back with its old credentials, keeping its name.
+  const handleClaimSeat = async (matchID: string, playerID: string) => {
+    const own = matchInfo?.matchID === matchID && matchInfo.playerID === playerID ? matchInfo : null;
+    const name = playerName.trim() || (own ? '' : window.prompt('Your name')?.trim());
+    if (!own && !name) return;
+    try {
+      const { playerCredentials } = await claimSeat(matchID, playerID, name ?? '', own?.credentials, watchPassword);
+      const { players } = await lobbyClient.getMatch('great-dalmuti', matchID);
+      setWatchID(null);
+      setWatchPassword('');
+      enterMatch({ matchID, playerID, credentials: playerCredentials, numPlayers: players.length }, players.length);
+      setView('game');
     } catch (e) {
-      setError(String(e));
+      showError(toAppError(e, { 409: 'seatTaken', 403: watchPassword ? 'wrongPassword' : 'passwordRequired' }));
+    }
+  };
+
+  const handleRejoin = async () => {
+    if (!savedSession) return;
+    setLoading(true);
+    try {
+      const match = await lobbyClient.getMatch('great-dalmuti', savedSession.matchID);
+      setSeatStandIn(isStandIn(match.players.find((p) => String(p.id) === savedSession.playerID)));
+      setMatchInfo(savedSession);
+      setView('game');
+    } catch (e) {
+      const error = toAppError(e);
+      // Only a match that is really gone loses the saved seat
+      if (error.code === 'matchNotFound') {
+        clearSession();
+        setSavedSession(null);
+      }
+      showError(error);
     } finally {
       setLoading(false);
     }
   };
 
+  // Forget the seat locally and go back to the lobby
+  const forgetMatch = () => {
+    clearSession();
+    setSavedSession(null);
+    setMatchInfo(null);
+    setInvite(null);
+    setView('lobby');
+  };
+
+  // Give up the seat for good: frees it on the server and forgets it here.
+  const handleLeave = async (session: MatchSession) => {
+    if (!window.confirm('Leave this match? Your seat will be given up.')) return;
+    try {
+      await lobbyClient.leaveMatch('great-dalmuti', session.matchID, {
+        playerID: session.playerID,
+        credentials: session.credentials,
+      });
+    } catch (e) {
+      // The match may already be gone; forget the session either way
+      console.error(e);
+    }
+    forgetMatch();
+  };
+
   const handleCopy = () => {
     if (!matchInfo) return;
-    navigator.clipboard.writeText(matchInfo.matchID).then(() => {
+    navigator.clipboard.writeText(inviteLink(matchInfo.matchID)).then(() => {
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     });
   };
 
+  const toastStack = <ToastStack toasts={toasts} onDismiss={dismiss} />;
+
+  if (view === 'watch' && watchID) {
+    return (
+      <>
+        <DalmutiClient
+          matchID={watchID}
+          credentials={watchPassword || undefined}
+          onLeave={handleStopWatching}
+          onClaimSeat={(playerID) => handleClaimSeat(watchID, playerID)}
+        />
+        {toastStack}
+      </>
+    );
+  }
+
+  if (view === 'game' && matchInfo && seatStandIn) {
+    return (
+      <>
+        <DalmutiClient
+          matchID={matchInfo.matchID}
+          credentials={matchInfo.credentials}
+          onLeave={forgetMatch}
+          onClaimSeat={(playerID) => handleClaimSeat(matchInfo.matchID, playerID)}
+        />
+        {toastStack}
+      </>
+    );
+  }
+
   if (view === 'game' && matchInfo) {
     return (
-      <DalmutiClient
-        matchID={matchInfo.matchID}
-        playerID={matchInfo.playerID}
-        credentials={matchInfo.credentials}
-      />
+      <>
+        <DalmutiClient
+          matchID={matchInfo.matchID}
+          playerID={matchInfo.playerID}
+          credentials={matchInfo.credentials}
+          onLeave={() => handleLeave(matchInfo)}
+          onRemoved={forgetMatch}
+          onClaimSeat={(playerID) => handleClaimSeat(matchInfo.matchID, playerID)}
+        />
+        {toastStack}
+      </>
+    );
+  }
+
+  if (view === 'queue') {
+    const waiting = queueStatus?.status === 'waiting' ? queueStatus : null;
+    const botSeconds = waiting ? Math.max(0, Math.ceil((waiting.botFillAt - Date.now()) / 1000)) : null;
+
+    return (
+      <div className={styles.lobby}>
+        <div className={styles.card}>
+          <h1 className={styles.title}>Finding a table…</h1>
+          <p className={styles.waitingHint}>
+            {waiting
+              ? `${waiting.queued} / ${waiting.numPlayers} players in the queue`
+              : 'Joining the queue…'}
+          </p>
+          {botSeconds !== null && (
+            <p className={styles.waitingHint}>
+              If nobody else turns up, bots take the empty seats in {botSeconds} s.
+            </p>
+          )}
+          <button className={styles.secondaryBtn} onClick={handleCancelQueue}>
+            Cancel
+          </button>
+        </div>
+        {toastStack}
+      </div>
     );
   }
 
   if (view === 'waiting' && matchInfo) {
-    const isOwner = matchInfo.playerID === '0';
+    const isOwner = matchInfo.playerID === ownerID;
     const allJoined = joinedCount >= matchInfo.numPlayers;
 
     return (
@@ -131,8 +651,8 @@ export function LobbyScreen({ serverURL }: LobbyScreenProps) {
           <h1 className={styles.title}>{isOwner ? 'Game Created!' : 'Joined!'}</h1>
           <p className={styles.subtitle}>
             {isOwner
-              ? 'Share this code with other players so they can join.'
-              : 'Share this code with friends who haven\'t joined yet.'}
+              ? 'Send the invite link to other players so they can join.'
+              : 'Send the invite link to friends who haven\'t joined yet.'}
           </p>
 
           <div className={styles.codeBlock}>
@@ -140,7 +660,7 @@ export function LobbyScreen({ serverURL }: LobbyScreenProps) {
             <div className={styles.codeRow}>
               <code className={styles.code}>{matchInfo.matchID}</code>
               <button className={styles.copyBtn} onClick={handleCopy}>
-                {copied ? '✓ Copied' : 'Copy'}
+                {copied ? '✓ Copied' : 'Copy link'}
               </button>
             </div>
           </div>
@@ -157,7 +677,14 @@ export function LobbyScreen({ serverURL }: LobbyScreenProps) {
           >
             Enter Game
           </button>
+          <button
+            className={styles.secondaryBtn}
+            onClick={() => handleLeave(matchInfo)}
+          >
+            Leave match
+          </button>
         </div>
+        {toastStack}
       </div>
     );
   }
@@ -167,6 +694,22 @@ export function LobbyScreen({ serverURL }: LobbyScreenProps) {
       <div className={styles.card}>
         <img src="/greatDalmutiTitle.png" alt="The Great Dalmuti" className={styles.titleImg} />
 
+        {savedSession && (
+          <div className={styles.rejoin}>
+            <p className={styles.rejoinText}>
+              You have a seat in game <code>{savedSession.matchID}</code>.
+            </p>
+            <div className={styles.rejoinActions}>
+              <button className={styles.primaryBtn} onClick={handleRejoin} disabled={loading}>
+                Rejoin game
+              </button>
+              <button className={styles.secondaryBtn} onClick={() => handleLeave(savedSession)} disabled={loading}>
+                Leave match
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className={styles.field}>
           <label className={styles.label} htmlFor="playerName">Your Name</label>
           <input
@@ -180,57 +723,162 @@ export function LobbyScreen({ serverURL }: LobbyScreenProps) {
           />
         </div>
 
-        <div className={styles.sections}>
-          <section className={styles.section}>
-            <h2>Create Game</h2>
+        {!invite && (
+          <div className={styles.quickPlay}>
             <div className={styles.field}>
-              <label className={styles.label} htmlFor="numPlayers">Players</label>
-              <input
-                id="numPlayers"
+              <label className={styles.label} htmlFor="quickPlaySize">Table</label>
+              <select
+                id="quickPlaySize"
                 className={styles.input}
-                type="number"
-                min={4}
-                max={8}
-                value={numPlayers}
-                onChange={(e) => setNumPlayers(Math.min(8, Math.max(4, Number(e.target.value))))}
-              />
+                value={quickPlaySize}
+                onChange={(e) => setQuickPlaySize(Number(e.target.value))}
+              >
+                {TABLE_SIZES.map((n) => (
+                  <option key={n} value={n}>{n} players</option>
+                ))}
+              </select>
             </div>
             <button
               className={styles.primaryBtn}
-              onClick={handleCreate}
+              onClick={handleQuickPlay}
               disabled={!playerName.trim() || loading}
             >
-              {loading ? 'Creating…' : 'Create & Join'}
+              Quick Play
             </button>
-          </section>
-
-          <div className={styles.divider} />
+          </div>
+        )}
 
-          <section className={styles.section}>
-            <h2>Join Game</h2>
-            <div className={styles.field}>
-              <label className={styles.label} htmlFor="matchID">Match ID</label>
-              <input
-                id="matchID"
-                className={styles.input}
-                type="text"
-                value={matchIDInput}
-                onChange={(e) => setMatchIDInput(e.target.value)}
-                placeholder="Paste match ID"
-              />
-            </div>
+        {invite ? (
+          <div className={styles.invite}>
+            <p className={styles.inviteText}>
+              You've been invited to game <code>{invite}</code>. Enter your name to join.
+            </p>
+            {needsPassword && (
+              <div className={styles.field}>
+                <label className={styles.label} htmlFor="joinPassword">Password</label>
+                <input
+                  id="joinPassword"
+                  className={styles.input}
+                  type="password"
+                  value={joinPassword}
+                  onChange={(e) => setJoinPassword(e.target.value)}
+                />
+              </div>
+            )}
             <button
-              className={styles.secondaryBtn}
+              className={styles.primaryBtn}
               onClick={handleJoin}
-              disabled={!playerName.trim() || !matchIDInput.trim() || loading}
+              disabled={!playerName.trim() || loading}
             >
-              {loading ? 'Joining…' : 'Join'}
+              {loading ? 'Joining…' : 'Join Game'}
             </button>
-          </section>
-        </div>
+            <button className={styles.linkBtn} onClick={() => setInvite(null)}>
+              Create or join a different game
+            </button>
+          </div>
+        ) : (
+          <div className={styles.sections}>
+            <section className={styles.section}>
+              <h2>Create Game</h2>
+              <div className={styles.field}>
+                <label className={styles.label} htmlFor="numPlayers">Players</label>
+                <input
+                  id="numPlayers"
+                  className={styles.input}
+                  type="number"
+                  min={4}
+                  max={8}
+                  value={numPlayers}
+                  onChange={(e) => setNumPlayers(Math.min(8, Math.max(4, Number(e.target.value))))}
+                />
+              </div>
+              <SettingsPanel options={options} numPlayers={numPlayers} onChange={setOptions} />
+              <label className={styles.checkboxField}>
+                <input
+                  type="checkbox"
+                  checked={isPrivate}
+                  onChange={(e) => setIsPrivate(e.target.checked)}
+                />
+                Private (invite only)
+              </label>
+              {isPrivate && (
+                <div className={styles.field}>
+                  <label className={styles.label} htmlFor="createPassword">Password (optional)</label>
+                  <input
+                    id="createPassword"
+                    className={styles.input}
+                    type="password"
+                    value={createPassword}
+                    onChange={(e) => setCreatePassword(e.target.value)}
+                  />
+                </div>
+              )}
+              <button
+                className={styles.primaryBtn}
+                onClick={handleCreate}
+                disabled={!playerName.trim() || loading || !pointsTableValid}
+              >
+                {loading ? 'Creating…' : 'Create & Join'}
+              </button>
+            </section>
+
+            <div className={styles.divider} />
+
+            <section className={styles.section}>
+              <h2>Join Game</h2>
+              <div className={styles.field}>
+                <label className={styles.label} htmlFor="matchID">Match ID</label>
+                <input
+                  id="matchID"
+                  className={styles.input}
+                  type="text"
+                  value={matchIDInput}
+                  onChange={(e) => setMatchIDInput(e.target.value)}
+                  placeholder="Paste match ID"
+                />
+              </div>
+              {needsPassword && (
+                <div className={styles.field}>
+                  <label className={styles.label} htmlFor="joinPassword">Password</label>
+                  <input
+                    id="joinPassword"
+                    className={styles.input}
+                    type="password"
+                    value={joinPassword}
+                    onChange={(e) => setJoinPassword(e.target.value)}
+                  />
+                </div>
+              )}
+              <button
+                className={styles.secondaryBtn}
+                onClick={handleJoin}
+                disabled={!playerName.trim() || !matchIDInput.trim() || loading}
+              >
+                {loading ? 'Joining…' : 'Join'}
+              </button>
+              <button
+                className={styles.secondaryBtn}
+                onClick={() => handleWatch()}
+                disabled={!matchIDInput.trim() || loading}
+              >
+                Watch
+              </button>
+            </section>
+          </div>
+        )}
+
+        {!invite && (
+          <MatchBrowser
+            lobbyClient={lobbyClient}
+            disabled={!playerName.trim() || loading}
+            onJoin={handleBrowserJoin}
+          />
+        )}
+
 
-        {error && <p className={styles.error}>{error}</p>}
+        <a className={styles.replayLink} href="/replay">Watch a replay</a>
       </div>
+      {toastStack}
     </div>
   );
 }
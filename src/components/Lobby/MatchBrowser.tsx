@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { LobbyClient } from 'boardgame.io/client';
+import type { LobbyAPI } from 'boardgame.io';
+import { resolveOptions } from '../../game/options';
+import { getMatchOwner } from '../../game/owner';
+import type { DalmutiSetupData, MatchOptions } from '../../game/types';
+import styles from './LobbyScreen.module.css';
+
+// How often the open match list refreshes while it is on screen
+const REFRESH_MS = 5000;
+
+interface MatchBrowserProps {
+  lobbyClient: LobbyClient;
+  disabled: boolean;
+  onJoin: (matchID: string) => void;
+}
+
+/** One-line summary of the house rules that differ from the standard game. */
+function describeRules(options: MatchOptions): string {
+  const rules = [`Tax ${options.greatTax}/${options.lesserTax}`];
+  if (options.soloJesters === 'forbidden') rules.push('No lone Jesters');
+  if (!options.revolutions) rules.push('No revolutions');
+  if (options.turnSeconds !== null) rules.push(`${options.turnSeconds} s turns`);
+  if (options.matchLength.type === 'rounds') rules.push(`${options.matchLength.rounds} rounds`);
+  if (options.matchLength.type === 'points') rules.push(`First to ${options.matchLength.target}`);
+  if (options.pointsTable !== null) rules.push('Custom points');
+  if (options.spectatorsSeeHands) rules.push('Open hands for spectators');
+  return rules.join(' · ');
+}
+
+/**
+ * Public matches with a free seat. Private matches are created unlisted, so
+ * the Lobby API never returns them here.
+ */
+export function MatchBrowser({ lobbyClient, disabled, onJoin }: MatchBrowserProps) {
+  const [matches, setMatches] = useState<LobbyAPI.Match[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { matches } = await lobbyClient.listMatches('great-dalmuti', { isGameover: false });
+      setMatches(matches.filter((m) => m.players.some((p) => !p.name)));
+    } catch {
+      // ignore transient fetch errors; the next refresh will retry
+    }
+  }, [lobbyClient]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return (
+    <section className={styles.browser}>
+      <div className={styles.browserHeader}>
+        <h2>Open Games</h2>
+        <button className={styles.linkBtn} onClick={refresh}>Refresh</button>
+      </div>
+      {matches === null ? (
+        <p className={styles.browserEmpty}>Loading…</p>
+      ) : matches.length === 0 ? (
+        <p className={styles.browserEmpty}>No open games right now. Create one!</p>
+      ) : (
+        <ul className={styles.browserList}>
+          {matches.map((match) => {
+            const filled = match.players.filter((p) => p.name).length;
+            const host = match.players.find((p) => String(p.id) === getMatchOwner(match));
+            return (
+              <li key={match.matchID} className={styles.browserRow}>
+                <div className={styles.browserInfo}>
+                  <span className={styles.browserHost}>
+                    {host?.name ?? 'Unknown'}'s game
+                  </span>
+                  <span className={styles.browserRules}>
+                    {describeRules(resolveOptions(match.setupData as DalmutiSetupData | undefined))}
+                  </span>
+                </div>
+                <span className={styles.browserSeats}>{filled} / {match.players.length}</span>
+                <button
+                  className={styles.copyBtn}
+                  onClick={() => onJoin(match.matchID)}
+                  disabled={disabled}
+                >
+                  Join
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
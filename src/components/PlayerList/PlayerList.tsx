@@ -1,4 +1,7 @@
-import type { DalmutiState } from '../../game/types';
+import { useEffect, useState } from 'react';
+import type { Card, DalmutiState } from '../../game/types';
+import { getBotDifficulty } from '../../game/ai';
+import { getReplaceVotes, isStandIn } from '../../game/seats';
 import styles from './PlayerList.module.css';
 
 /** Fan of face-down card backs representing an opponent's hand size. */
@@ -33,9 +36,45 @@ function CardFan({ count }: { count: number }) {
   );
 }
 
+/** Face-up summary of a hand, one chip per rank (replays only). */
+function RevealedHand({ cards }: { cards: Card[] }) {
+  const counts = new Map<number, number>();
+  for (const card of cards) counts.set(card.rank, (counts.get(card.rank) ?? 0) + 1);
+  // Best first: 1 … 12, Jesters last
+  const ranks = [...counts.keys()].sort((a, b) => (a === 0 ? 13 : a) - (b === 0 ? 13 : b));
+
+  return (
+    <div className={styles.revealedHand}>
+      {ranks.map((rank) => (
+        <span key={rank} className={rank === 0 ? styles.rankChipJester : styles.rankChip}>
+          {rank === 0 ? 'J' : rank}
+          {counts.get(rank)! > 1 && <small>×{counts.get(rank)}</small>}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/** Seconds left on the active player's turn, ticking down to the deadline. */
+function TurnClock({ deadline }: { deadline: number }) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [deadline]);
+
+  const seconds = Math.max(0, Math.ceil((deadline - now) / 1000));
+  return (
+    <span className={[styles.turnClock, seconds <= 5 ? styles.turnClockLow : ''].filter(Boolean).join(' ')}>
+      {seconds}s
+    </span>
+  );
+}
+
 interface MatchPlayer {
   id: number;
   name?: string;
+  isConnected?: boolean;
 }
 
 interface PlayerListProps {
@@ -50,6 +89,18 @@ interface PlayerListProps {
   horizontal?: boolean;
   /** PlayerIDs who have passed on the current trick. */
   passedPlayers?: string[];
+  /** Running point totals across the match, keyed by playerID. */
+  scores?: Record<string, number>;
+  /** Server time the current player's turn runs out, if the match has a turn clock. */
+  turnDeadline?: number | null;
+  /** Show every hand face up (replay viewer). */
+  revealHands?: boolean;
+  /** Quick reactions to show as a bubble next to each sender, by playerID. */
+  emotes?: Record<string, string>;
+  /** Vote to hand an away player's seat to a bot (seated players only). */
+  onVoteReplace?: (playerID: string) => void;
+  /** Take over a stand-in bot's seat: any of them when spectating, else only our own. */
+  onClaimSeat?: (playerID: string) => void;
 }
 
 
@@ -62,6 +113,12 @@ export function PlayerList({
   playerIDs,
   horizontal = false,
   passedPlayers = [],
+  scores,
+  turnDeadline = null,
+  revealHands = false,
+  emotes = {},
+  onVoteReplace,
+  onClaimSeat,
 }: PlayerListProps) {
   const numPlayers = Object.keys(players).length;
 
@@ -95,6 +152,15 @@ export function PlayerList({
         const pos = finishPosition(id);
         const title = getSocialTitle(id);
         const hasPassed = passedPlayers.includes(id);
+        // Seat status from matchData (absent in replays)
+        const seat = matchData?.find((p) => String(p.id) === id);
+        const isBot = getBotDifficulty(seat) !== null;
+        const isAway = seat !== undefined && !isBot && (!seat.name || seat.isConnected === false);
+        // Opponents' sockets; our own connection has the Board's banner
+        const showConnection = seat?.name !== undefined && !isBot && !isMe;
+        const isOnline = seat?.isConnected === true;
+        const replaceVotes = getReplaceVotes(seat);
+        const canClaim = onClaimSeat && isStandIn(seat) && (playerID === null || isMe);
 
         return (
           <div
@@ -110,13 +176,40 @@ export function PlayerList({
               .join(' ')}
           >
             <div className={styles.nameRow}>
+              {showConnection && (
+                <span
+                  className={isOnline ? styles.online : styles.offline}
+                  title={isOnline ? 'Connected' : 'Disconnected'}
+                />
+              )}
               <span className={styles.name}>{getDisplayName(id)}</span>
               {isMe && <span className={styles.meTag}>You</span>}
+              {isBot && <span className={styles.botTag}>Bot</span>}
+              {isAway && <span className={styles.awayTag}>Offline</span>}
               {hasPassed && <span className={styles.passBadge}>PASS</span>}
+              {isActive && turnDeadline !== null && <TurnClock deadline={turnDeadline} />}
+              {emotes[id] && <span className={styles.emoteBubble}>{emotes[id]}</span>}
             </div>
             {title && <span className={styles.title}>{title}</span>}
-            {!finished && <CardFan count={player.hand.length} />}
+            {scores && <span className={styles.score}>{scores[id] ?? 0} pts</span>}
+            {!finished && (revealHands
+              ? <RevealedHand cards={player.hand} />
+              : <CardFan count={player.hand.length} />)}
             {pos !== null && <div className={styles.finishBadge}>#{pos} out</div>}
+            {onVoteReplace && replaceVotes && !isMe && (
+              <button
+                className={styles.seatAction}
+                disabled={playerID !== null && replaceVotes.includes(playerID)}
+                onClick={() => onVoteReplace(id)}
+              >
+                Replace with bot{replaceVotes.length > 0 && ` (${replaceVotes.length})`}
+              </button>
+            )}
+            {canClaim && (
+              <button className={styles.seatAction} onClick={() => onClaimSeat(id)}>
+                {isMe ? 'Take back seat' : 'Take this seat'}
+              </button>
+            )}
           </div>
         );
       })}
@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Board } from '../Board/Board';
+import type { DalmutiBoardProps } from '../Board/Board';
+import { buildReplaySteps, parseReplay } from '../../game/replay';
+import type { MatchReplay, ReplayStep } from '../../game/replay';
+import styles from './ReplayViewer.module.css';
+
+// Delay between steps while playing
+const PLAYBACK_STEP_MS = 700;
+
+// Board moves are never sent during a replay; every call is a no-op.
+const READ_ONLY_MOVES = new Proxy({}, { get: () => () => {} }) as DalmutiBoardProps['moves'];
+
+interface LoadedReplay {
+  replay: MatchReplay;
+  steps: ReplayStep[];
+  // Step index at which each round starts (its deal), in round order
+  roundStarts: number[];
+}
+
+function loadReplay(text: string): LoadedReplay {
+  const replay = parseReplay(JSON.parse(text));
+  const steps = buildReplaySteps(replay);
+  const roundStarts = steps.flatMap((step, i) =>
+    step.move?.move === 'startGame' || step.move?.move === 'advanceRound' ? [i] : []
+  );
+  return { replay, steps, roundStarts };
+}
+
+/** Read-only viewer for a downloaded replay file, served at /replay. */
+export function ReplayViewer() {
+  const [loaded, setLoaded] = useState<LoadedReplay | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [error, setError] = useState('');
+
+  const lastIndex = loaded ? loaded.steps.length - 1 : 0;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setIndex((i) => i + 1), PLAYBACK_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, index, lastIndex]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setPlaying(false);
+    try {
+      setLoaded(loadReplay(await file.text()));
+      setIndex(0);
+      setError('');
+    } catch (e) {
+      setLoaded(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // The round whose deal is at or before the current step
+  const currentRound = loaded
+    ? loaded.roundStarts.filter((start) => start <= index).length
+    : 0;
+
+  const boardProps = useMemo((): DalmutiBoardProps | null => {
+    if (!loaded) return null;
+    const { state } = loaded.steps[index];
+    return {
+      ...state,
+      moves: READ_ONLY_MOVES,
+      events: {},
+      log: [],
+      reset: () => {},
+      undo: () => {},
+      redo: () => {},
+      sendChatMessage: () => {},
+      chatMessages: [],
+      playerID: null,
+      matchID: loaded.replay.matchID,
+      matchData: loaded.replay.players,
+      isActive: false,
+      isConnected: true,
+      isMultiplayer: false,
+      replay: true,
+    };
+  }, [loaded, index]);
+
+  const step = loaded?.steps[index].move;
+
+  return (
+    <div className={styles.viewer}>
+      <div className={styles.controls}>
+        <label className={styles.fileLabel}>
+          Open replay…
+          <input
+            type="file"
+            accept="application/json,.json"
+            className={styles.fileInput}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </label>
+        {loaded && (
+          <>
+            <button className={styles.btn} onClick={() => setIndex((i) => Math.max(0, i - 1))} disabled={index === 0}>
+              ◀ Back
+            </button>
+            <button className={styles.btn} onClick={() => setPlaying((p) => !p)} disabled={index >= lastIndex}>
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <button className={styles.btn} onClick={() => setIndex((i) => Math.min(lastIndex, i + 1))} disabled={index >= lastIndex}>
+              Step ▶
+            </button>
+            <select
+              className={styles.roundSelect}
+              value={currentRound}
+              onChange={(e) => setIndex(loaded.roundStarts[Number(e.target.value) - 1] ?? 0)}
+            >
+              {currentRound === 0 && <option value={0}>Lobby</option>}
+              {loaded.roundStarts.map((_, i) => (
+                <option key={i} value={i + 1}>Round {i + 1}</option>
+              ))}
+            </select>
+            <span className={styles.position}>
+              Move {index} / {lastIndex}
+              {step && ` · ${step.move} (player ${step.playerID})`}
+            </span>
+          </>
+        )}
+        <a className={styles.exit} href="/">Back to lobby</a>
+      </div>
+
+      {error && <p className={styles.error}>{error}</p>}
+      {boardProps ? (
+        <Board {...boardProps} />
+      ) : (
+        !error && <p className={styles.hint}>Open a replay file downloaded from a match to watch it back.</p>
+      )}
+    </div>
+  );
+}
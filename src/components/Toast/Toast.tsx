@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AppError } from '../../game/errors';
+import styles from './Toast.module.css';
+
+// How long a toast stays up unless dismissed
+const TOAST_MS = 4000;
+
+interface Toast {
+  id: number;
+  error: AppError;
+}
+
+/**
+ * Toasts for AppErrors. showError adds one that disappears by itself after
+ * TOAST_MS; the same message is not stacked twice while it is showing.
+ */
+export function useToasts() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextID = useRef(0);
+  const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+  useEffect(() => () => timers.current.forEach(clearTimeout), []);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((t) => t.filter((toast) => toast.id !== id));
+  }, []);
+
+  const showError = useCallback((error: AppError) => {
+    const id = nextID.current++;
+    setToasts((t) => t.some((toast) => toast.error.message === error.message) ? t : [...t, { id, error }]);
+    timers.current.push(setTimeout(() => dismiss(id), TOAST_MS));
+  }, [dismiss]);
+
+  return { toasts, showError, dismiss };
+}
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+/** The current toasts, stacked at the top of the screen. */
+export function ToastStack({ toasts, onDismiss }: ToastStackProps) {
+  if (toasts.length === 0) return null;
+  return (
+    <div className={styles.stack} role="status" aria-live="polite">
+      {toasts.map(({ id, error }) => (
+        <div key={id} className={styles.toast} data-code={error.code}>
+          <span>{error.message}</span>
+          <button className={styles.close} onClick={() => onDismiss(id)} aria-label="Dismiss">×</button>
+        </div>
+      ))}
+    </div>
+  );
+}
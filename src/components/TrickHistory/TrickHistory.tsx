@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import type { GameEvent, TrickRank } from '../../game/types';
+import styles from './TrickHistory.module.css';
+
+interface TrickHistoryProps {
+  eventLog: GameEvent[];
+  /** Round to show; earlier rounds are left out. */
+  round: number;
+  displayName: (playerID: string) => string;
+}
+
+interface HistoryTrick {
+  entries: { key: number; text: string; kind: 'play' | 'pass' | 'note' }[];
+  winner: string | null;
+}
+
+const rankLabel = (rank: TrickRank) => (rank === 13 ? 'Jester (13)' : String(rank));
+
+/**
+ * Group a round's play events into tricks. A trick closes on its trickWon
+ * event; the next play after it is the new trick's lead.
+ */
+function buildTricks(
+  eventLog: GameEvent[],
+  round: number,
+  displayName: (playerID: string) => string,
+): HistoryTrick[] {
+  const tricks: HistoryTrick[] = [];
+  let current: HistoryTrick | null = null;
+  const open = () => {
+    if (current === null || current.winner !== null) {
+      current = { entries: [], winner: null };
+      tricks.push(current);
+    }
+    return current;
+  };
+
+  eventLog.forEach((event, key) => {
+    if (event.round !== round) return;
+    switch (event.type) {
+      case 'play': {
+        const trick = open();
+        const jesters = event.cards.filter((c) => c.rank === 0).length;
+        const verb = trick.entries.some((e) => e.kind === 'play') ? 'played' : 'led';
+        trick.entries.push({
+          key,
+          kind: 'play',
+          text: `${displayName(event.playerID)} ${verb} ${event.count}× ${rankLabel(event.rank)}`
+            + (jesters > 0 && event.rank !== 13 ? ` (${jesters} Jester${jesters > 1 ? 's' : ''})` : ''),
+        });
+        break;
+      }
+      case 'pass':
+        open().entries.push({ key, kind: 'pass', text: `${displayName(event.playerID)} passed` });
+        break;
+      case 'turnTimedOut':
+        open().entries.push({ key, kind: 'note', text: `${displayName(event.playerID)} ran out of time` });
+        break;
+      case 'playerFinished':
+        open().entries.push({ key, kind: 'note', text: `${displayName(event.playerID)} is out (#${event.position})` });
+        break;
+      case 'trickWon':
+        open().winner = event.playerID;
+        break;
+    }
+  });
+  return tricks;
+}
+
+/** Collapsible side panel listing the current round play by play. */
+export function TrickHistory({ eventLog, round, displayName }: TrickHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+  const tricks = buildTricks(eventLog, round, displayName);
+
+  // Keep the newest play in view as the log grows
+  useEffect(() => {
+    if (open && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [open, eventLog.length]);
+
+  return (
+    <aside className={open ? styles.panelOpen : styles.panel}>
+      <button className={styles.toggle} onClick={() => setOpen((o) => !o)} aria-expanded={open}>
+        {open ? 'Hide history' : 'History'}
+      </button>
+      {open && (
+        <div ref={listRef} className={styles.list}>
+          {tricks.length === 0 && <p className={styles.empty}>No plays yet this round.</p>}
+          {tricks.map((trick, i) => (
+            <section key={i} className={styles.trick}>
+              <h3 className={styles.trickTitle}>Trick {i + 1}</h3>
+              <ul className={styles.entries}>
+                {trick.entries.map((entry) => (
+                  <li key={entry.key} className={styles[entry.kind]}>{entry.text}</li>
+                ))}
+              </ul>
+              {trick.winner !== null && (
+                <p className={styles.winner}>{displayName(trick.winner)} won the trick</p>
+              )}
+            </section>
+          ))}
+        </div>
+      )}
+    </aside>
+  );
+}
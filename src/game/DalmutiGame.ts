@@ -1,19 +1,25 @@
 import type { Game } from 'boardgame.io';
-import type { DalmutiState, Card, CardRank } from './types';
+import type { DalmutiState, DalmutiSetupData, Card, CardRank } from './types';
 import { lobbyPhase, taxPhase, playPhase, roundOverPhase } from './phases';
 import { buildDeck } from './deck';
+import { resolveOptions, validateSetupData } from './options';
+import { getMatchResult } from './scoring';
+import { redactEventLog } from './events';
 
 // ---------------------------------------------------------------------------
 // Game definition
 // ---------------------------------------------------------------------------
 
-export const DalmutiGame: Game<DalmutiState> = {
+export const DalmutiGame: Game<DalmutiState, Record<string, unknown>, DalmutiSetupData> = {
   name: 'great-dalmuti',
 
   minPlayers: 4,
   maxPlayers: 8,
 
-  setup: ({ ctx, random }): DalmutiState => {
+  // House rules arrive as createMatch setupData; reject bad values up front
+  validateSetupData: (setupData, numPlayers) => validateSetupData(setupData, numPlayers),
+
+  setup: ({ ctx, random }, setupData): DalmutiState => {
     const deck = random.Shuffle(buildDeck());
 
     // Deal cards round-robin across all players
@@ -26,6 +32,7 @@ export const DalmutiGame: Game<DalmutiState> = {
     });
 
     const players: DalmutiState['players'] = {};
+    const scores: DalmutiState['scores'] = {};
     for (let i = 0; i < ctx.numPlayers; i++) {
       const id = String(i);
       players[id] = {
@@ -35,9 +42,11 @@ export const DalmutiGame: Game<DalmutiState> = {
         finished: false,
         finishPosition: null,
       };
+      scores[id] = 0;
     }
 
     return {
+      options: resolveOptions(setupData),
       players,
       currentTrick: null,
       lastPlayerToPlay: null,
@@ -45,20 +54,31 @@ export const DalmutiGame: Game<DalmutiState> = {
       taxDebts: [],
       passedPlayers: [],
       roundNumber: 1,
+      scores,
       revolutionDeclaredBy: null,
       isGreaterRevolution: false,
+      eventLog: [],
+      ownerID: '0',
+      plannedSeatOrder: null,
       seatOrder: [],
+      turnDeadline: null,
       pendingNewTrick: false,
       readyPlayers: [],
+      roundOverDeadline: null,
       roundOverDone: false,
+      pausedAt: null,
+      pauseVote: null,
     };
   },
 
   // ---------------------------------------------------------------------------
-  // Secret state: strip other players' hands and hide incoming tax cards
+  // Secret state: strip other players' hands, hide incoming tax cards and
+  // other players' tax exchanges in the event log. Spectators (playerID null)
+  // get the same view with no hand of their own, unless the match lets them
+  // see everything.
   // ---------------------------------------------------------------------------
   playerView: ({ G, playerID }) => {
-    if (playerID === null) return G; // Spectator
+    if (playerID === null && G.options.spectatorsSeeHands) return G;
 
     const sanitizedPlayers: DalmutiState['players'] = {};
     for (const [id, player] of Object.entries(G.players)) {
@@ -72,19 +92,31 @@ export const DalmutiGame: Game<DalmutiState> = {
     // The Dalmuti (receiver) must not see the incoming cards until after they
     // have committed their give-back cards. Strip offeredCards from their view;
     // they can still see `count` to know how many face-down cards are incoming.
+    // Spectators never see tax cards.
     const sanitizedDebts = G.taxDebts.map((debt) =>
-      debt.toPlayerID === playerID
+      debt.toPlayerID === playerID || playerID === null
         ? { ...debt, offeredCards: [] }
         : debt
     );
 
-    return { ...G, players: sanitizedPlayers, taxDebts: sanitizedDebts };
+    return {
+      ...G,
+      players: sanitizedPlayers,
+      taxDebts: sanitizedDebts,
+      eventLog: redactEventLog(G.eventLog, playerID),
+    };
   },
 
+  // The match ends as soon as the round that reaches options.matchLength is
+  // scored (playPhase.onEnd); ctx.gameover then carries the final standings.
+  // With the default "endless" length this never fires.
+  endIf: ({ G }) => getMatchResult(G),
+
   phases: {
     // Game starts in the lobby; owner clicks Start to randomise seats and begin.
     // After start: lobby → tax → play → roundOver → tax → play → roundOver → ...
-    // Rounds loop indefinitely. The round-over phase shows results for 15 s.
+    // Rounds loop until the match length is reached. The round-over phase
+    // shows results for options.roundOverSeconds (15 s by default).
     lobby: {
       ...lobbyPhase,
       start: true,
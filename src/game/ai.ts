@@ -0,0 +1,166 @@
+import type { Ctx } from 'boardgame.io';
+import type { DalmutiState, Card, CardRank } from './types';
+import { getLegalPlays, getWeakestPlay } from './rules';
+import type { LegalPlay } from './rules';
+
+// ---------------------------------------------------------------------------
+// Bot players
+// ---------------------------------------------------------------------------
+// Pure decision logic for server-side bots. Given the unfiltered match state,
+// each bot picks at most one move to make right now. The server's BotManager
+// (server/bots.ts) dispatches the chosen move and asks again after every
+// state update, so a bot never needs to plan more than one step ahead.
+
+/**
+ * easy → always play the weakest legal set, never uses Jesters as wildcards
+ *        unless it has to, never declares a Revolution.
+ * hard → saves strong cards (ranks 1–3) and Jesters for the end of the round,
+ *        avoids splitting sets, and declares a Revolution to dodge taxation.
+ */
+export type BotDifficulty = 'easy' | 'hard';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'hard'];
+
+/** Stored in a bot seat's match metadata (`players[id].data`). */
+export interface BotSeatData {
+  bot: BotDifficulty;
+}
+
+/**
+ * Read the bot difficulty from a seat's metadata, or null for human seats.
+ * Accepts client-side matchData entries too, whose type omits `data`.
+ */
+export function getBotDifficulty(seat: object | undefined): BotDifficulty | null {
+  const data = (seat as { data?: Partial<BotSeatData> } | undefined)?.data;
+  const bot = data?.bot;
+  return bot && BOT_DIFFICULTIES.includes(bot) ? bot : null;
+}
+
+export interface BotAction {
+  move: 'playCards' | 'pass' | 'markReady' | 'giveBackCards' | 'declareRevolution' | 'votePause';
+  args: unknown[];
+}
+
+// Ranks at or below this number are "strong" and saved by the hard bot.
+const STRONG_RANK = 3;
+
+/**
+ * Hard: like easy, but holds back strong cards and Jesters while the hand is
+ * still large, and prefers plays that use up a whole rank group.
+ */
+function chooseHardPlay(
+  plays: LegalPlay[],
+  hand: Card[],
+  leading: boolean,
+): LegalPlay | null {
+  if (plays.length === 0) return null;
+
+  // Going out wins outright — take it whatever it costs.
+  const finishing = plays.find((p) => p.cardIds.length === hand.length);
+  if (finishing) return finishing;
+
+  const groupSize = (rank: number) => hand.filter((c) => c.rank === rank).length;
+  const endgame = hand.length <= 6;
+  const patient = plays.filter((p) => endgame || (p.jesters === 0 && p.rank > STRONG_RANK));
+
+  // Leading must always play something; fall back to the full list.
+  const pool = patient.length > 0 ? patient : leading ? plays : [];
+  if (pool.length === 0) return null;
+
+  return [...pool].sort((a, b) => {
+    if (a.jesters !== b.jesters) return a.jesters - b.jesters;
+    // Prefer plays that don't break a larger group of the same rank
+    const aSplits = a.rank !== 13 && a.cardIds.length - a.jesters < groupSize(a.rank) ? 1 : 0;
+    const bSplits = b.rank !== 13 && b.cardIds.length - b.jesters < groupSize(b.rank) ? 1 : 0;
+    if (aSplits !== bSplits) return aSplits - bSplits;
+    // Jesters alone are a last resort lead
+    if ((a.rank === 13) !== (b.rank === 13)) return a.rank === 13 ? 1 : -1;
+    if (a.rank !== b.rank) return b.rank - a.rank;
+    return b.cardIds.length - a.cardIds.length;
+  })[0];
+}
+
+/** Pick the `count` worst cards (highest rank number, Jesters kept) to give back. */
+function chooseGiveBack(hand: Card[], count: number): string[] {
+  const effective = (rank: CardRank) => (rank === 0 ? -1 : rank);
+  return [...hand]
+    .sort((a, b) => effective(b.rank) - effective(a.rank))
+    .slice(0, count)
+    .map((c) => c.id);
+}
+
+function chooseTaxAction(
+  G: DalmutiState,
+  ctx: Ctx,
+  playerID: string,
+  difficulty: BotDifficulty,
+): BotAction | null {
+  const player = G.players[playerID];
+
+  // Hard bots holding both Jesters cancel their own taxation with a Revolution.
+  const myDebt = G.taxDebts.find((d) => d.fromPlayerID === playerID && d.count > 0);
+  if (difficulty === 'hard' && G.options.revolutions && myDebt && G.revolutionDeclaredBy === null) {
+    const jesters = player.hand.filter((c) => c.rank === 0).length
+      + myDebt.offeredCards.filter((c) => c.rank === 0).length;
+    if (jesters >= 2) return { move: 'declareRevolution', args: [] };
+  }
+
+  if (!G.readyPlayers.includes(playerID)) {
+    return { move: 'markReady', args: [] };
+  }
+
+  // Match on count, not offeredCards: the receiver's player view hides the offer.
+  const receivable = G.taxDebts.find((d) => d.toPlayerID === playerID && d.count > 0);
+  if (receivable && G.readyPlayers.length >= ctx.numPlayers) {
+    return { move: 'giveBackCards', args: [chooseGiveBack(player.hand, receivable.count)] };
+  }
+  return null;
+}
+
+function choosePlayAction(
+  G: DalmutiState,
+  playerID: string,
+  difficulty: BotDifficulty,
+): BotAction | null {
+  const hand = G.players[playerID].hand;
+  const leading = G.currentTrick === null;
+  const plays = getLegalPlays(hand, G.currentTrick, G.options.soloJesters);
+  const play = difficulty === 'easy'
+    ? getWeakestPlay(plays, leading)
+    : chooseHardPlay(plays, hand, leading);
+
+  if (play) return { move: 'playCards', args: [play.cardIds] };
+  return leading ? null : { move: 'pass', args: [] };
+}
+
+/**
+ * Decide the next move for the bot in seat `playerID`, or null when the bot
+ * has nothing to do right now (not its turn, already ready, lobby, …).
+ * `G` must be the full server-side state, not a filtered player view.
+ */
+export function chooseBotAction(
+  G: DalmutiState,
+  ctx: Ctx,
+  playerID: string,
+  difficulty: BotDifficulty,
+): BotAction | null {
+  if (ctx.gameover !== undefined || !G.players[playerID]) return null;
+
+  // Bots abstain from pause and resume votes, leaving them to the humans,
+  // and do nothing else while paused
+  const vote = G.pauseVote;
+  if (vote && ![vote.yes, vote.no, vote.abstained].some((ids) => ids.includes(playerID))) {
+    return { move: 'votePause', args: [null] };
+  }
+  if (G.pausedAt !== null) return null;
+
+  switch (ctx.phase) {
+    case 'tax':
+      return chooseTaxAction(G, ctx, playerID, difficulty);
+    case 'play':
+      if (ctx.currentPlayer !== playerID || G.players[playerID].finished) return null;
+      return choosePlayAction(G, playerID, difficulty);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,28 @@
+// ---------------------------------------------------------------------------
+// Table chat
+// ---------------------------------------------------------------------------
+// Chat rides on boardgame.io's own chat channel (sendChatMessage /
+// chatMessages), not on G. Each message's payload is a ChatPayload; the
+// server's ChatGuard (server/chat.ts) drops anything malformed, too long or
+// sent too quickly.
+
+export const CHAT_MAX_LENGTH = 200;
+
+// Quick reactions, shown briefly as a bubble next to the sender
+export const EMOTES = ['Nice!', 'Ouch', 'Revolution!'] as const;
+
+export type Emote = typeof EMOTES[number];
+
+export type ChatPayload =
+  | { kind: 'text'; text: string }
+  | { kind: 'emote'; emote: Emote };
+
+/** Whether a chat payload is well formed and within the length limit. */
+export function isValidChatPayload(payload: unknown): payload is ChatPayload {
+  if (typeof payload !== 'object' || payload === null) return false;
+  const p = payload as Partial<Record<string, unknown>>;
+  if (p.kind === 'text') {
+    return typeof p.text === 'string' && p.text.trim().length > 0 && p.text.length <= CHAT_MAX_LENGTH;
+  }
+  return p.kind === 'emote' && EMOTES.includes(p.emote as Emote);
+}
@@ -0,0 +1,28 @@
+// ---------------------------------------------------------------------------
+// Game clock
+// ---------------------------------------------------------------------------
+// Deadlines in G (turnDeadline, roundOverDeadline) are set and checked against
+// this clock rather than Date.now directly, so a replay can re-run the match
+// on a simulated clock: advanceRound and timeoutTurn only succeed once their
+// deadline has passed, which on the real clock it never would mid-replay.
+
+let source: () => number = () => Date.now();
+
+/** Current time in ms since the epoch, as seen by the game. */
+export function now(): number {
+  return source();
+}
+
+/**
+ * Run `fn` with the game clock replaced by `clock`, restoring the wall clock
+ * afterwards. Synchronous only — nothing else may run in between.
+ */
+export function withClock<T>(clock: () => number, fn: () => T): T {
+  const previous = source;
+  source = clock;
+  try {
+    return fn();
+  } finally {
+    source = previous;
+  }
+}
@@ -0,0 +1,114 @@
+import type { Ctx } from 'boardgame.io';
+import { describeRejection, validatePlay } from './rules';
+import type { PlayRejection } from './rules';
+import type { DalmutiState, Trick } from './types';
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+// One typed model for everything that can go wrong in front of a player,
+// whether an HTTP call to the server fails (src/client/errors.ts maps those)
+// or the server turns down a move. Both end up as an AppError, which the
+// lobby and the board show as a toast.
+//
+// boardgame.io drops a rejected move without telling the sender why, so the
+// server (server/rejections.ts) works out a MoveRejection from the unchanged
+// state and sends it to that player's socket alone over the chat channel.
+
+export type ErrorCode =
+  | 'matchFull'
+  | 'matchNotFound'
+  | 'illegalPlay'
+  | 'notYourTurn'
+  | 'exchangeLocked'
+  | 'paused'
+  | 'passwordRequired'
+  | 'wrongPassword'
+  | 'seatTaken'
+  | 'removed'
+  | 'queueExpired'
+  | 'serverUnreachable'
+  | 'unknown';
+
+export interface AppError {
+  code: ErrorCode;
+  message: string;
+}
+
+const MESSAGES: Record<ErrorCode, string> = {
+  matchFull: 'This game is full.',
+  matchNotFound: 'That game does not exist.',
+  illegalPlay: 'That move is not allowed right now.',
+  notYourTurn: "It's not your turn.",
+  exchangeLocked: 'The card exchange opens once every player has agreed to the tax.',
+  paused: 'The match is paused.',
+  passwordRequired: 'This game needs a password.',
+  wrongPassword: 'Wrong password.',
+  seatTaken: 'Someone else took that seat first.',
+  removed: 'The owner removed you from the match.',
+  queueExpired: 'You dropped out of the quick play queue. Please try again.',
+  serverUnreachable: "Can't reach the server. Check your connection and try again.",
+  unknown: 'Something went wrong. Please try again.',
+};
+
+/** An AppError with the code's standard message, or a more specific one. */
+export function appError(code: ErrorCode, message = MESSAGES[code]): AppError {
+  return { code, message };
+}
+
+/** Sent to a player whose move the server turned down. */
+export interface MoveRejection {
+  kind: 'moveRejected';
+  move: string;
+  code: ErrorCode;
+  /** Why a play was refused, for illegalPlay from playCards. */
+  play?: PlayRejection;
+}
+
+export function isMoveRejection(payload: unknown): payload is MoveRejection {
+  if (typeof payload !== 'object' || payload === null) return false;
+  const p = payload as Partial<Record<string, unknown>>;
+  return p.kind === 'moveRejected' && typeof p.move === 'string'
+    && typeof p.code === 'string' && p.code in MESSAGES;
+}
+
+/**
+ * Why `move` from `playerID` was turned down, given the state it was tried
+ * against. The moves themselves only return INVALID_MOVE; this repeats their
+ * checks closely enough to name the reason.
+ */
+export function explainRejection(
+  G: DalmutiState,
+  ctx: Ctx,
+  playerID: string,
+  move: string,
+  args: unknown[],
+): MoveRejection {
+  const reject = (code: ErrorCode, play?: PlayRejection): MoveRejection =>
+    ({ kind: 'moveRejected', move, code, ...(play && { play }) });
+  const isPauseMove = move === 'requestPause' || move === 'votePause' || move === 'cancelPauseVote';
+
+  if (G.pausedAt !== null && !isPauseMove) return reject('paused');
+
+  if (move === 'playCards' || move === 'pass') {
+    if (ctx.phase !== 'play' || ctx.currentPlayer !== playerID) return reject('notYourTurn');
+    if (move === 'pass') return reject('illegalPlay');
+    const hand = G.players[playerID]?.hand ?? [];
+    const check = validatePlay(args[0] as string[], hand, G.currentTrick, G.options.soloJesters);
+    return reject('illegalPlay', check.ok ? undefined : check.reason);
+  }
+
+  if (move === 'giveBackCards' && ctx.phase === 'tax' && G.readyPlayers.length < ctx.numPlayers) {
+    return reject('exchangeLocked');
+  }
+  return reject('illegalPlay');
+}
+
+/** The AppError to show for a rejection; `trick` fills in play details. */
+export function rejectionError(rejection: MoveRejection, trick: Trick | null): AppError {
+  if (rejection.play) return appError(rejection.code, describeRejection(rejection.play, trick));
+  if (rejection.move === 'pass' && rejection.code === 'illegalPlay') {
+    return appError('illegalPlay', 'You lead this trick, so you cannot pass.');
+  }
+  return appError(rejection.code);
+}
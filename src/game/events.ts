@@ -0,0 +1,21 @@
+import type { DalmutiState, GameEvent, GameEventData } from './types';
+
+/** Append an event to the match log, stamped with the current round. */
+export function logEvent(G: DalmutiState, event: GameEventData): void {
+  G.eventLog.push({ ...event, round: G.roundNumber } as GameEvent);
+}
+
+/**
+ * The event log as `playerID` (null for a spectator) may see it. Tax exchanges
+ * are private to the two players involved: everyone else keeps the count but
+ * not the cards.
+ */
+export function redactEventLog(eventLog: GameEvent[], playerID: string | null): GameEvent[] {
+  return eventLog.map((event) =>
+    event.type === 'taxExchanged'
+      && event.fromPlayerID !== playerID
+      && event.toPlayerID !== playerID
+      ? { ...event, taxCards: [], returnedCards: [] }
+      : event
+  );
+}
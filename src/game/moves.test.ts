@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { INVALID_MOVE } from 'boardgame.io/core';
+import type { Ctx, MoveFn } from 'boardgame.io';
+import { DalmutiGame } from './DalmutiGame';
+import { withClock } from './clock';
+import {
+  cancelPauseVote,
+  declareRevolution,
+  giveBackCards,
+  markReady,
+  requestPause,
+  votePause,
+} from './moves';
+import type { Card, DalmutiState } from './types';
+
+// Stage moves take their caller from the authenticated playerID. These drive
+// each one as player "1" while naming (or, for giveBackCards, passing in the
+// old argument position) another player, and check that nothing moves. The
+// pause votes follow at the end.
+
+const NUM_PLAYERS = 4;
+
+/** A freshly dealt match in the tax phase, unshuffled so hands are predictable. */
+function taxPhaseState(): DalmutiState {
+  const ctx = { numPlayers: NUM_PLAYERS } as Ctx;
+  const random = { Shuffle: <T,>(deck: T[]) => deck };
+  const G = DalmutiGame.setup!({ ctx, random } as never, { revolutions: true } as never);
+  G.seatOrder = ['0', '1', '2', '3'];
+  G.finishOrder = ['0', '1', '2', '3'];
+  return G;
+}
+
+/** Call a stage move as if `playerID` had authenticated and sent it. */
+function callAs(move: unknown, G: DalmutiState, playerID: string, ...args: unknown[]) {
+  const ctx = { numPlayers: NUM_PLAYERS, phase: 'tax' } as Ctx;
+  return (move as MoveFn<DalmutiState>)({ G, ctx, playerID } as never, ...args);
+}
+
+const snapshot = (G: DalmutiState) => structuredClone(G);
+
+describe('markReady', () => {
+  it('rejects a call that claims another player', () => {
+    const G = taxPhaseState();
+    const before = snapshot(G);
+
+    expect(callAs(markReady, G, '1', '2')).toBe(INVALID_MOVE);
+    expect(G.readyPlayers).toEqual(before.readyPlayers);
+    expect(G.readyPlayers).not.toContain('2');
+  });
+
+  it('marks the authenticated caller ready', () => {
+    const G = taxPhaseState();
+    expect(callAs(markReady, G, '1')).not.toBe(INVALID_MOVE);
+    expect(G.readyPlayers).toEqual(['1']);
+  });
+});
+
+describe('declareRevolution', () => {
+  // Hand both Jesters to the caller, so only the claimed ID stands in the way
+  function stateWithJesters(): DalmutiState {
+    const G = taxPhaseState();
+    const jesters: Card[] = [];
+    for (const player of Object.values(G.players)) {
+      jesters.push(...player.hand.filter((c) => c.rank === 0));
+      player.hand = player.hand.filter((c) => c.rank !== 0);
+    }
+    G.players['1'].hand.push(...jesters);
+    G.taxDebts = [{ fromPlayerID: '3', toPlayerID: '0', count: 2, offeredCards: [] }];
+    return G;
+  }
+
+  it('rejects a call that claims another player', () => {
+    const G = stateWithJesters();
+    const before = snapshot(G);
+
+    expect(callAs(declareRevolution, G, '1', '2')).toBe(INVALID_MOVE);
+    expect(G.players['2']).toEqual(before.players['2']);
+    expect(G.players['1']).toEqual(before.players['1']);
+    expect(G.taxDebts).toEqual(before.taxDebts);
+    expect(G.revolutionDeclaredBy).toBeNull();
+  });
+
+  it('lets the Jester holder declare for themselves', () => {
+    const G = stateWithJesters();
+    expect(callAs(declareRevolution, G, '1')).not.toBe(INVALID_MOVE);
+    expect(G.revolutionDeclaredBy).toBe('1');
+  });
+});
+
+describe('giveBackCards', () => {
+  // Player "3" owes the Great Dalmuti ("0") two cards, already staged
+  function stateWithDebt(): DalmutiState {
+    const G = taxPhaseState();
+    const payer = G.players['3'];
+    const offeredCards = payer.hand.splice(0, 2);
+    G.taxDebts = [{ fromPlayerID: '3', toPlayerID: '0', count: 2, offeredCards }];
+    G.readyPlayers = ['0', '1', '2', '3'];
+    return G;
+  }
+
+  it('rejects the old (callerID, cardIds) call shape naming another player', () => {
+    const G = stateWithDebt();
+    const before = snapshot(G);
+    const cardIds = G.players['0'].hand.slice(0, 2).map((c) => c.id);
+
+    expect(callAs(giveBackCards, G, '1', '0', cardIds)).toBe(INVALID_MOVE);
+    expect(G.players['0']).toEqual(before.players['0']);
+    expect(G.players['3']).toEqual(before.players['3']);
+    expect(G.taxDebts).toEqual(before.taxDebts);
+  });
+
+  it("rejects a caller giving back the receiver's cards", () => {
+    const G = stateWithDebt();
+    const before = snapshot(G);
+    const cardIds = G.players['0'].hand.slice(0, 2).map((c) => c.id);
+
+    expect(callAs(giveBackCards, G, '1', cardIds)).toBe(INVALID_MOVE);
+    expect(G.players['0']).toEqual(before.players['0']);
+    expect(G.taxDebts).toEqual(before.taxDebts);
+  });
+
+  it('lets the receiver give back their own cards', () => {
+    const G = stateWithDebt();
+    const cardIds = G.players['0'].hand.slice(0, 2).map((c) => c.id);
+
+    expect(callAs(giveBackCards, G, '0', cardIds)).not.toBe(INVALID_MOVE);
+    expect(G.players['0'].hand.map((c) => c.id)).not.toContain(cardIds[0]);
+  });
+});
+
+describe('pause votes', () => {
+  it('leaves abstaining bots out of the majority', () => {
+    const G = taxPhaseState();
+    callAs(requestPause, G, '0');
+    callAs(votePause, G, '2', null);
+    callAs(votePause, G, '3', null);
+    expect(G.pausedAt).toBeNull();
+
+    callAs(votePause, G, '1', true);
+    expect(G.pausedAt).not.toBeNull();
+    expect(G.pauseVote).toBeNull();
+  });
+
+  it('lets only the requester withdraw a vote before its deadline', () => {
+    const G = taxPhaseState();
+    callAs(requestPause, G, '0');
+
+    expect(callAs(cancelPauseVote, G, '1')).toBe(INVALID_MOVE);
+    expect(G.pauseVote).not.toBeNull();
+    callAs(cancelPauseVote, G, '0');
+    expect(G.pauseVote).toBeNull();
+  });
+
+  it('lets anyone cancel a vote past its deadline', () => {
+    const G = taxPhaseState();
+    callAs(requestPause, G, '0');
+    const lapsed = G.pauseVote!.deadline + 1;
+
+    withClock(() => lapsed, () => callAs(cancelPauseVote, G, '1'));
+    expect(G.pauseVote).toBeNull();
+  });
+});
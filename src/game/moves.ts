@@ -1,7 +1,10 @@
 import { INVALID_MOVE } from 'boardgame.io/core';
-import type { Move } from 'boardgame.io';
-import type { DalmutiState, Card, TrickRank } from './types';
+import type { Move, MoveFn } from 'boardgame.io';
+import type { DalmutiState, Card, PauseVote } from './types';
 import { buildDeck } from './deck';
+import { logEvent } from './events';
+import { now } from './clock';
+import { validatePlay } from './rules';
 
 /**
  * After any play/pass, check whether the current trick has been won
@@ -17,57 +20,40 @@ function markTrickWonIfComplete(G: DalmutiState): void {
   );
   if (stillNeedToRespond.length === 0) {
     G.pendingNewTrick = true;
+    logEvent(G, { type: 'trickWon', playerID: G.lastPlayerToPlay });
   }
 }
 
+/**
+ * Resolve the player making a stage move from the authenticated `playerID` in
+ * the move context. The server only accepts a move for a playerID whose
+ * credentials check out, so this can't be forged by the client.
+ *
+ * Stage moves take no player argument; if one is passed anyway and names
+ * anyone else, the call is treated as spoofed and rejected (returns null).
+ */
+function resolveCaller(G: DalmutiState, playerID: string | undefined, claimedID?: unknown): string | null {
+  if (!playerID || !G.players[playerID]) return null;
+  if (claimedID !== undefined && claimedID !== playerID) return null;
+  return playerID;
+}
+
 // ---------------------------------------------------------------------------
 // Play Phase Moves
 // ---------------------------------------------------------------------------
 
 /**
- * Play a set of cards. Rules:
- *  - All non-Joker cards must share the same rank.
- *  - Jokers are wild when played alongside at least one non-Joker card (they
- *    substitute for that rank). Jokers played alone carry effective rank 13,
- *    which is weaker than any normal card (1–12) and can be beaten by anything.
- *
- * If a trick is active, the play must:
- *  - Use the same number of cards as the current trick.
- *  - Have a lower effective rank (better) than the current trick.
+ * Play a set of cards from the current player's hand. The rules live in
+ * validatePlay (rules.ts): one rank per play with Jesters wild, and against a
+ * trick the same number of cards at a better rank.
  */
-export const playCards: Move<DalmutiState> = ({ G, ctx }, cardIds: string[]) => {
+export const playCards: MoveFn<DalmutiState> = ({ G, ctx }, cardIds: string[]) => {
   const playerID = ctx.currentPlayer;
   const player = G.players[playerID];
 
-  if (!cardIds || cardIds.length === 0) return INVALID_MOVE;
-
-  // Validate all card IDs exist in this player's hand
-  const playedCards: Card[] = [];
-  for (const id of cardIds) {
-    const card = player.hand.find((c) => c.id === id);
-    if (!card) return INVALID_MOVE;
-    playedCards.push(card);
-  }
-
-  const jesters = playedCards.filter((c) => c.rank === 0);
-  const nonJesters = playedCards.filter((c) => c.rank !== 0);
-
-  // All non-Jester cards must be the same rank
-  const uniqueRanks = new Set(nonJesters.map((c) => c.rank));
-  if (uniqueRanks.size > 1) return INVALID_MOVE;
-
-  // Jokers played alongside other cards are wild (use the non-Joker rank).
-  // Jokers played alone carry effective rank 13 — weaker than any normal card.
-  const playedRank: TrickRank = nonJesters.length > 0
-    ? nonJesters[0].rank
-    : 13;
-
-  if (G.currentTrick !== null) {
-    // Must match the current trick count
-    if (playedCards.length !== G.currentTrick.count) return INVALID_MOVE;
-    // Must beat current trick: lower rank number is better (13 beats nothing)
-    if (playedRank >= G.currentTrick.rank) return INVALID_MOVE;
-  }
+  const check = validatePlay(cardIds, player.hand, G.currentTrick, G.options.soloJesters);
+  if (!check.ok) return INVALID_MOVE;
+  const { cards: playedCards, rank: playedRank } = check;
 
   // Remove played cards from hand
   const playedIdSet = new Set(cardIds);
@@ -82,12 +68,20 @@ export const playCards: Move<DalmutiState> = ({ G, ctx }, cardIds: string[]) =>
   };
   G.lastPlayerToPlay = playerID;
   G.passedPlayers = [];
+  logEvent(G, {
+    type: 'play',
+    playerID,
+    cards: playedCards,
+    rank: playedRank,
+    count: playedCards.length,
+  });
 
   // Mark player finished if hand is empty
   if (player.hand.length === 0) {
     player.finished = true;
     player.finishPosition = G.finishOrder.length + 1;
     G.finishOrder.push(playerID);
+    logEvent(G, { type: 'playerFinished', playerID, position: player.finishPosition });
   }
 
   // Flag the trick as won if all remaining active players are accounted for.
@@ -99,33 +93,59 @@ export const playCards: Move<DalmutiState> = ({ G, ctx }, cardIds: string[]) =>
  * Pass on the current trick. The current player declines to play.
  * Cannot pass if there is no active trick (must play to open).
  */
-export const pass: Move<DalmutiState> = ({ G, ctx }) => {
+export const pass: MoveFn<DalmutiState> = ({ G, ctx }) => {
   if (G.currentTrick === null) return INVALID_MOVE;
   G.passedPlayers.push(ctx.currentPlayer);
+  logEvent(G, { type: 'pass', playerID: ctx.currentPlayer });
   // Flag the trick as won if this was the last pass needed.
   markTrickWonIfComplete(G);
 };
 
+/**
+ * Fired by the server's turn clock once G.turnDeadline has passed (client:
+ * false, so the deadline is checked against the server's clock). Passes for
+ * the current player; a leader with no trick to pass on instead plays their
+ * worst single card — a lone Jester if allowed, else their highest rank.
+ */
+export const timeoutTurn: MoveFn<DalmutiState> = (context) => {
+  const { G, ctx } = context;
+  if (G.turnDeadline === null || now() < G.turnDeadline) return INVALID_MOVE;
+  logEvent(G, { type: 'turnTimedOut', playerID: ctx.currentPlayer });
+  if (G.currentTrick !== null) return pass(context);
+
+  const hand = G.players[ctx.currentPlayer].hand;
+  const candidates = G.options.soloJesters === 'forbidden'
+    ? hand.filter((c) => c.rank !== 0)
+    : hand;
+  const worst = [...candidates].sort((a, b) => {
+    const ra = a.rank === 0 ? 13 : a.rank;
+    const rb = b.rank === 0 ? 13 : b.rank;
+    return rb - ra;
+  })[0];
+  // Only Jesters left under the "forbidden" rule: they go out together
+  return playCards(context, worst ? [worst.id] : hand.map((c) => c.id));
+};
+
 // ---------------------------------------------------------------------------
 // Lobby Phase Moves
 // ---------------------------------------------------------------------------
 
 /**
- * Called by the room owner (player "0") to start the game.
- * - Shuffles all player IDs into G.seatOrder (the fixed play order).
+ * Called by the room owner (G.ownerID) to start the game.
+ * - Fixes G.seatOrder (the play order): the owner's planned seating if they
+ *   arranged one, otherwise all player IDs shuffled.
  * - Draws initial social ranks by randomly assigning positions 1..N,
  *   equivalent to each player drawing a unique card from a shuffled deck.
  *   This populates G.finishOrder and socialRank so that round-1 taxation
  *   works exactly like every subsequent round.
  */
-export const startGame: Move<DalmutiState> = ({ G, ctx, random }) => {
-  if (ctx.currentPlayer !== '0') return INVALID_MOVE;
+export const startGame: Move<DalmutiState> = ({ G, ctx, playerID, random }) => {
+  if (playerID !== G.ownerID) return INVALID_MOVE;
 
   const playerIDs = Object.keys(G.players);
   const n = ctx.numPlayers;
 
-  // Randomise seating order for the play phase
-  G.seatOrder = random.Shuffle([...playerIDs]);
+  G.seatOrder = G.plannedSeatOrder ? [...G.plannedSeatOrder] : random.Shuffle([...playerIDs]);
 
   // Draw initial social ranks: shuffle player IDs to assign ranks 1..N.
   // Index 0 → Great Dalmuti (rank 1), last index → Greater Peon (rank N).
@@ -134,6 +154,8 @@ export const startGame: Move<DalmutiState> = ({ G, ctx, random }) => {
   initialOrder.forEach((id, index) => {
     G.players[id].socialRank = index + 1;
   });
+  logEvent(G, { type: 'matchStarted', seatOrder: [...G.seatOrder], initialOrder: [...initialOrder] });
+  logEvent(G, { type: 'roundStarted' });
 
   // Deal the first hand (server-side so random.Shuffle is available)
   for (const id of playerIDs) {
@@ -145,20 +167,21 @@ export const startGame: Move<DalmutiState> = ({ G, ctx, random }) => {
   });
 
   // Set up round-1 tax debts based on the randomly drawn initial ranks
+  // (tax sizes come from the match's house rules; a size of 0 means no debt)
   G.taxDebts = [];
-  if (n >= 2) {
+  if (n >= 2 && G.options.greatTax > 0) {
     G.taxDebts.push({
       fromPlayerID: initialOrder[n - 1],
       toPlayerID: initialOrder[0],
-      count: 2,
+      count: G.options.greatTax,
       offeredCards: [],
     });
   }
-  if (n >= 4) {
+  if (n >= 4 && G.options.lesserTax > 0) {
     G.taxDebts.push({
       fromPlayerID: initialOrder[n - 2],
       toPlayerID: initialOrder[1],
-      count: 1,
+      count: G.options.lesserTax,
       offeredCards: [],
     });
   }
@@ -179,13 +202,44 @@ export const startGame: Move<DalmutiState> = ({ G, ctx, random }) => {
   }
 };
 
+/**
+ * Owner only: arrange the seating by hand (every player ID exactly once, in
+ * play order), or pass null to go back to a random draw at the start.
+ */
+export const setSeatOrder: MoveFn<DalmutiState> = ({ G, playerID }, order: string[] | null) => {
+  if (playerID !== G.ownerID) return INVALID_MOVE;
+  if (order === null) {
+    G.plannedSeatOrder = null;
+    return;
+  }
+  const playerIDs = Object.keys(G.players);
+  const isPermutation = Array.isArray(order)
+    && order.length === playerIDs.length
+    && playerIDs.every((id) => order.includes(id));
+  if (!isPermutation) return INVALID_MOVE;
+  G.plannedSeatOrder = [...order];
+};
+
+/**
+ * Hand the waiting room to another player. G cannot see who has joined, so
+ * this is a server-only move: server/lobby.ts makes it, as the new owner,
+ * once the match metadata shows they are a joined human (on the owner's
+ * request, or when the owner leaves), and server/sockets.ts drops it when a
+ * client sends it.
+ */
+export const transferOwnership: MoveFn<DalmutiState> = ({ G }, newOwnerID: string) => {
+  if (!G.players[newOwnerID] || newOwnerID === G.ownerID) return INVALID_MOVE;
+  G.ownerID = newOwnerID;
+};
+
 // ---------------------------------------------------------------------------
 // Round-Over Phase Moves
 // ---------------------------------------------------------------------------
 
 /**
- * Called by the room owner (player "0") to advance past the round-over screen.
- * The Board auto-fires this after a 15-second countdown.
+ * Advance past the round-over screen. Fired by the server's round timer at
+ * G.roundOverDeadline; any player's client may also fire it, but only once
+ * that deadline has passed on the server's clock.
  *
  * Runs server-side (client: false) so random.Shuffle is available.
  * Does all round setup here — card dealing, taxation, flag resets — rather
@@ -194,6 +248,7 @@ export const startGame: Move<DalmutiState> = ({ G, ctx, random }) => {
  * end signals roundOverPhase.endIf to transition to the tax phase.
  */
 export const advanceRound: Move<DalmutiState> = ({ G, ctx, random }) => {
+  if (G.roundOverDeadline === null || now() < G.roundOverDeadline) return INVALID_MOVE;
   const n = ctx.numPlayers;
 
   // Clear play-area state left over from the previous round
@@ -215,25 +270,26 @@ export const advanceRound: Move<DalmutiState> = ({ G, ctx, random }) => {
   deck.forEach((card, i) => {
     G.players[String(i % n)].hand.push(card);
   });
+  logEvent(G, { type: 'roundStarted' });
 
   // Set up tax debts based on the finish order from the round that just ended.
   // G.finishOrder is populated by playPhase.onEnd and is still intact here
   // (playPhase.onBegin resets it later when the new play phase begins).
   const order = G.finishOrder;
   G.taxDebts = [];
-  if (order.length >= 2) {
+  if (order.length >= 2 && G.options.greatTax > 0) {
     G.taxDebts.push({
       fromPlayerID: order[n - 1],
       toPlayerID: order[0],
-      count: 2,
+      count: G.options.greatTax,
       offeredCards: [],
     });
   }
-  if (order.length >= 4) {
+  if (order.length >= 4 && G.options.lesserTax > 0) {
     G.taxDebts.push({
       fromPlayerID: order[n - 2],
       toPlayerID: order[1],
-      count: 1,
+      count: G.options.lesserTax,
       offeredCards: [],
     });
   }
@@ -262,6 +318,7 @@ export const advanceRound: Move<DalmutiState> = ({ G, ctx, random }) => {
   }
 
   // Signal roundOverPhase.endIf to transition to the tax phase
+  G.roundOverDeadline = null;
   G.roundOverDone = true;
 };
 
@@ -275,12 +332,13 @@ export const advanceRound: Move<DalmutiState> = ({ G, ctx, random }) => {
  * tax debts are resolved. For the Dalmuti, call markReady after giving back
  * cards. For Peons and Merchants, call it as soon as you're satisfied.
  *
- * callerID is passed explicitly by the client because in boardgame.io's
+ * The caller is the authenticated playerID from the move context — in
  * activePlayers stage mode ctx.currentPlayer reflects the *turn's* current
  * player, not the player who invoked the stage move.
  */
-export const markReady: Move<DalmutiState> = ({ G }, callerID: string) => {
-  if (!callerID || !G.players[callerID]) return INVALID_MOVE;
+export const markReady: Move<DalmutiState> = ({ G, playerID }, claimedID?: unknown) => {
+  const callerID = resolveCaller(G, playerID, claimedID);
+  if (!callerID) return INVALID_MOVE;
   if (!G.readyPlayers.includes(callerID)) {
     G.readyPlayers.push(callerID);
   }
@@ -295,12 +353,14 @@ export const markReady: Move<DalmutiState> = ({ G }, callerID: string) => {
  * Greater Revolution (Greater Peon only): also immediately inverts every
  *   player's social rank (the former losers become the new ruling class).
  *
+ * Disabled entirely when the match's `revolutions` house rule is off.
+ *
  * Runs server-side so it can see all hands and debts unfiltered.
  */
-export const declareRevolution: Move<DalmutiState> = ({ G }, callerID: string) => {
-  const playerID = callerID;
+export const declareRevolution: Move<DalmutiState> = ({ G, playerID: authID }, claimedID?: unknown) => {
+  const playerID = resolveCaller(G, authID, claimedID);
+  if (!playerID || !G.options.revolutions) return INVALID_MOVE;
   const player = G.players[playerID];
-  if (!player) return INVALID_MOVE;
   const n = Object.keys(G.players).length;
 
   // Player must hold both Jokers. Check their hand AND any cards that were
@@ -336,6 +396,7 @@ export const declareRevolution: Move<DalmutiState> = ({ G }, callerID: string) =
   // Cancel all tax debts — taxPhase.endIf sees empty debts and exits the phase
   G.taxDebts = [];
   G.revolutionDeclaredBy = playerID;
+  logEvent(G, { type: 'revolution', playerID, greater: isGreater });
 };
 
 /**
@@ -343,16 +404,18 @@ export const declareRevolution: Move<DalmutiState> = ({ G }, callerID: string) =
  * for the tax cards they receive. The Great Dalmuti gives 2 worst back, etc.
  * Marked client: false — runs server-side only.
  *
- * callerID is passed explicitly by the client because in boardgame.io's
- * activePlayers stage mode ctx.currentPlayer reflects the *turn's* current
- * player, not the player who invoked the stage move.
+ * The receiver is the authenticated playerID from the move context, never a
+ * client-supplied argument.
  */
-export const giveBackCards: Move<DalmutiState> = ({ G, ctx }, callerID: string, cardIds: string[]) => {
+export const giveBackCards: Move<DalmutiState> = ({ G, ctx, playerID: authID }, cardIds: string[]) => {
+  // Rejects the old (callerID, cardIds) call shape as well as non-array input
+  if (!Array.isArray(cardIds)) return INVALID_MOVE;
+  const playerID = resolveCaller(G, authID);
+  if (!playerID) return INVALID_MOVE;
+
   // Exchange is locked until every player has agreed (markReady) to the tax
   if (G.readyPlayers.length < ctx.numPlayers) return INVALID_MOVE;
 
-  const playerID = callerID;
-
   const debt = G.taxDebts.find(
     (d) => d.toPlayerID === playerID && d.offeredCards.length > 0
   );
@@ -375,8 +438,110 @@ export const giveBackCards: Move<DalmutiState> = ({ G, ctx }, callerID: string,
   receiver.hand = receiver.hand.filter((c) => !giveBackIdSet.has(c.id));
   receiver.hand.push(...debt.offeredCards);
   payer.hand.push(...giveBackCards);
+  logEvent(G, {
+    type: 'taxExchanged',
+    fromPlayerID: debt.fromPlayerID,
+    toPlayerID: playerID,
+    count: debt.count,
+    taxCards: [...debt.offeredCards],
+    returnedCards: giveBackCards,
+  });
 
   // Mark debt as fully resolved by clearing it
   debt.offeredCards = [];
   debt.count = 0;
 };
+
+// ---------------------------------------------------------------------------
+// Pause Moves
+// ---------------------------------------------------------------------------
+// Any player may call a vote to pause the match, or to resume it once paused.
+// Bots abstain, and a majority of the remaining seats decides. A vote lapses
+// after PAUSE_VOTE_SECONDS (the server's timer cancels it) and the player
+// who called it may withdraw it sooner. The moves are noLimit, so a vote
+// never uses up the current player's one move per turn, and client: false,
+// so the pause is timed on the server's clock.
+
+export const PAUSE_VOTE_SECONDS = 30;
+
+/**
+ * Wrap a phase's moves so they are rejected while the match is paused.
+ * Applied in phases.ts to every move but the pause votes themselves.
+ */
+export function unlessPaused(move: Move<DalmutiState>): MoveFn<DalmutiState> {
+  const fn = typeof move === 'function' ? move : move.move;
+  return (context, ...args) => (context.G.pausedAt !== null ? INVALID_MOVE : fn(context, ...args));
+}
+
+/** Seats that get a say in `vote`, and how many yes votes carry it. */
+export function pauseVoteMajority(vote: PauseVote, numPlayers: number): { voters: number; needed: number } {
+  const voters = numPlayers - vote.abstained.length;
+  return { voters, needed: Math.floor(voters / 2) + 1 };
+}
+
+/** Carry out the vote once a majority agrees, or drop it once one can't. */
+function settlePauseVote(G: DalmutiState, numPlayers: number): void {
+  const vote = G.pauseVote;
+  if (!vote) return;
+  const { voters, needed: majority } = pauseVoteMajority(vote, numPlayers);
+  if (vote.no.length > voters - majority) {
+    G.pauseVote = null;
+    return;
+  }
+  if (vote.yes.length < majority) return;
+
+  G.pauseVote = null;
+  if (vote.action === 'pause') {
+    G.pausedAt = now();
+    return;
+  }
+  // Resume: push the frozen deadlines back by the time spent paused
+  const pausedFor = now() - (G.pausedAt ?? now());
+  if (G.turnDeadline !== null) G.turnDeadline += pausedFor;
+  if (G.roundOverDeadline !== null) G.roundOverDeadline += pausedFor;
+  G.pausedAt = null;
+}
+
+/**
+ * Call a vote to pause the running match, or to resume a paused one. The
+ * caller's own vote counts as a yes. Only one vote may run at a time.
+ */
+export const requestPause: MoveFn<DalmutiState> = ({ G, ctx, playerID }) => {
+  const callerID = resolveCaller(G, playerID);
+  if (!callerID || G.pauseVote) return INVALID_MOVE;
+  G.pauseVote = {
+    action: G.pausedAt === null ? 'pause' : 'resume',
+    requestedBy: callerID,
+    yes: [callerID],
+    no: [],
+    abstained: [],
+    deadline: now() + PAUSE_VOTE_SECONDS * 1000,
+  };
+  settlePauseVote(G, ctx.numPlayers);
+};
+
+/**
+ * Vote on the pause or resume vote in progress: true or false, or null to
+ * abstain and leave the seat out of the majority. Each player votes once.
+ */
+export const votePause: MoveFn<DalmutiState> = ({ G, ctx, playerID }, approve: boolean | null) => {
+  const callerID = resolveCaller(G, playerID);
+  const vote = G.pauseVote;
+  if (!callerID || !vote || (typeof approve !== 'boolean' && approve !== null)) return INVALID_MOVE;
+  if ([vote.yes, vote.no, vote.abstained].some((ids) => ids.includes(callerID))) return INVALID_MOVE;
+  (approve === null ? vote.abstained : approve ? vote.yes : vote.no).push(callerID);
+  settlePauseVote(G, ctx.numPlayers);
+};
+
+/**
+ * Drop the vote in progress. The player who called it may withdraw it at any
+ * time; anyone may cancel it once its deadline has passed, which is how the
+ * server's pause vote timer ends a vote nobody finished.
+ */
+export const cancelPauseVote: MoveFn<DalmutiState> = ({ G, playerID }) => {
+  const callerID = resolveCaller(G, playerID);
+  const vote = G.pauseVote;
+  if (!callerID || !vote) return INVALID_MOVE;
+  if (callerID !== vote.requestedBy && now() < vote.deadline) return INVALID_MOVE;
+  G.pauseVote = null;
+};
@@ -0,0 +1,85 @@
+import type { DalmutiSetupData, MatchLength, MatchOptions, SoloJesterRule } from './types';
+
+/** The standard rules, used for any option the match creator leaves out. */
+export const DEFAULT_OPTIONS: MatchOptions = {
+  greatTax: 2,
+  lesserTax: 1,
+  soloJesters: 'weakest',
+  revolutions: true,
+  roundOverSeconds: 15,
+  matchLength: { type: 'endless' },
+  turnSeconds: null,
+  pointsTable: null,
+  spectatorsSeeHands: false,
+};
+
+export const SOLO_JESTER_RULES: SoloJesterRule[] = ['weakest', 'forbidden'];
+
+const isInteger = (value: unknown, min: number, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Validate createMatch setupData. Returns an error message for the Lobby API
+ * to reject the match with, or undefined when the data is acceptable.
+ * Used as DalmutiGame.validateSetupData.
+ */
+export function validateSetupData(
+  setupData: DalmutiSetupData | undefined,
+  numPlayers: number,
+): string | undefined {
+  if (setupData === undefined) return undefined;
+  if (typeof setupData !== 'object' || setupData === null) return 'setupData must be an object';
+
+  for (const key of Object.keys(setupData)) {
+    if (!(key in DEFAULT_OPTIONS)) return `Unknown option: ${key}`;
+  }
+
+  const options = resolveOptions(setupData);
+  if (!isInteger(options.greatTax, 0, 4)) return 'greatTax must be a whole number from 0 to 4';
+  if (!isInteger(options.lesserTax, 0, options.greatTax)) {
+    return 'lesserTax must be a whole number from 0 to greatTax';
+  }
+  if (!SOLO_JESTER_RULES.includes(options.soloJesters)) {
+    return `soloJesters must be one of ${SOLO_JESTER_RULES.join(', ')}`;
+  }
+  if (typeof options.revolutions !== 'boolean') return 'revolutions must be true or false';
+  if (!isInteger(options.roundOverSeconds, 5, 120)) {
+    return 'roundOverSeconds must be a whole number from 5 to 120';
+  }
+  if (options.turnSeconds !== null && !isInteger(options.turnSeconds, 10, 300)) {
+    return 'turnSeconds must be null or a whole number from 10 to 300';
+  }
+  if (typeof options.spectatorsSeeHands !== 'boolean') return 'spectatorsSeeHands must be true or false';
+  return validateMatchLength(options.matchLength)
+    ?? validatePointsTable(options.pointsTable, numPlayers);
+}
+
+function validateMatchLength(length: MatchLength): string | undefined {
+  if (typeof length !== 'object' || length === null) return 'matchLength must be an object';
+  switch (length.type) {
+    case 'endless':
+      return undefined;
+    case 'rounds':
+      return isInteger(length.rounds, 1, 50) ? undefined : 'matchLength.rounds must be from 1 to 50';
+    case 'points':
+      return isInteger(length.target, 1, 500) ? undefined : 'matchLength.target must be from 1 to 500';
+    default:
+      return 'matchLength.type must be endless, rounds or points';
+  }
+}
+
+function validatePointsTable(table: number[] | null, numPlayers: number): string | undefined {
+  if (table === null) return undefined;
+  if (!Array.isArray(table) || table.length !== numPlayers) {
+    return `pointsTable must list points for all ${numPlayers} finish positions`;
+  }
+  if (!table.every((points) => isInteger(points, 0, 100))) {
+    return 'pointsTable entries must be whole numbers from 0 to 100';
+  }
+  return undefined;
+}
+
+/** Fill in defaults for any option the setupData leaves out. */
+export function resolveOptions(setupData: DalmutiSetupData | undefined): MatchOptions {
+  return { ...DEFAULT_OPTIONS, ...setupData };
+}
@@ -0,0 +1,17 @@
+// ---------------------------------------------------------------------------
+// Match owner
+// ---------------------------------------------------------------------------
+// G.ownerID decides who may run the waiting room. The server mirrors it into
+// the match metadata (server/lobby.ts) so the lobby's waiting view and the
+// match browser can show the owner without loading the game.
+
+/** Match metadata fields added next to the seats. */
+export interface OwnedMatchData {
+  ownerID?: string;
+}
+
+/** The owner recorded on a match listing: the creator, seat "0", until handed on. */
+export function getMatchOwner(match: object): string {
+  const { ownerID } = match as OwnedMatchData;
+  return typeof ownerID === 'string' ? ownerID : '0';
+}
@@ -1,20 +1,55 @@
+import { ActivePlayers, Stage } from 'boardgame.io/core';
 import type { PhaseConfig, Move } from 'boardgame.io';
 import type { DalmutiState } from './types';
-import { playCards, pass, giveBackCards, declareRevolution, startGame, markReady, advanceRound } from './moves';
+import {
+  playCards,
+  pass,
+  timeoutTurn,
+  giveBackCards,
+  declareRevolution,
+  startGame,
+  setSeatOrder,
+  transferOwnership,
+  markReady,
+  advanceRound,
+  requestPause,
+  votePause,
+  cancelPauseVote,
+  unlessPaused,
+} from './moves';
+import { awardRoundPoints } from './scoring';
+import { logEvent } from './events';
+import { now } from './clock';
+
+// ---------------------------------------------------------------------------
+// Pausing
+// ---------------------------------------------------------------------------
+// Every phase after the lobby offers the pause votes to every player and
+// wraps its other moves in unlessPaused, so nothing happens while paused.
+
+const pauseMoves: Record<string, Move<DalmutiState>> = {
+  requestPause: { move: requestPause, client: false, noLimit: true },
+  votePause: { move: votePause, client: false, noLimit: true },
+  cancelPauseVote: { move: cancelPauseVote, client: false, noLimit: true },
+};
 
 // ---------------------------------------------------------------------------
 // Lobby Phase
 // ---------------------------------------------------------------------------
-// Players gather here after joining. Only the room owner (player "0") can act.
-// When the owner calls startGame, seatOrder is randomised and the phase ends,
-// transitioning to the tax phase (round 1 – no actual taxation, but players
-// must click Ready before play begins).
+// Players gather here after joining. Only the room owner (G.ownerID) can act:
+// every player is active so ownership can change hands, and each move checks
+// the caller is the owner (transferOwnership is made by the server instead,
+// which checks the match metadata). When the owner calls startGame, seatOrder is fixed
+// and the phase ends, transitioning to the tax phase (round 1 – no actual
+// taxation, but players must click Ready before play begins).
 
 export const lobbyPhase: PhaseConfig<DalmutiState> = {
   start: false, // set to true in DalmutiGame.ts
 
   moves: {
     startGame: { move: startGame, client: false } as Move<DalmutiState>,
+    setSeatOrder,
+    transferOwnership: { move: transferOwnership, client: false } as Move<DalmutiState>,
   },
 
   // Phase ends as soon as seatOrder has been populated by startGame
@@ -23,12 +58,12 @@ export const lobbyPhase: PhaseConfig<DalmutiState> = {
   next: 'tax',
 
   turn: {
-    // Keep the turn permanently on player "0" (the room owner).
-    // Other players cannot make moves; they simply wait.
+    // The turn itself never moves on; the owner check lives in the moves.
     order: {
       first: () => 0,
       next: () => 0,
     },
+    activePlayers: ActivePlayers.ALL,
   },
 };
 
@@ -39,7 +74,7 @@ export const lobbyPhase: PhaseConfig<DalmutiState> = {
 // taxation). Players must click Ready to proceed. For rounds 2+, Peons'
 // best cards are auto-staged and Dalmuties must choose give-back cards.
 //
-// Tax rules:
+// Tax rules (default sizes; set per match by options.greatTax / lesserTax):
 //   - 1st place (Great Dalmuti) receives 2 cards from last place (Peon)
 //   - 2nd place (Lesser Dalmuti) receives 1 card from 2nd-to-last (Lesser Peon)
 //
@@ -85,11 +120,14 @@ export const taxPhase: PhaseConfig<DalmutiState> = {
     stages: {
       waitingForTax: {
         moves: {
-          giveBackCards: { move: giveBackCards, client: false } as Move<DalmutiState>,
+          // Redacted: the card IDs it takes name their ranks, and boardgame.io
+          // sends every move's arguments to all clients in its log
+          giveBackCards: { move: unlessPaused(giveBackCards), client: false, redact: true } as Move<DalmutiState>,
           // Any player with both Jokers may cancel taxation (and invert ranks if Greater Peon)
-          declareRevolution: { move: declareRevolution, client: false } as Move<DalmutiState>,
+          declareRevolution: { move: unlessPaused(declareRevolution), client: false } as Move<DalmutiState>,
           // All players call this to signal they're ready to begin playing
-          markReady: { move: markReady, client: false } as Move<DalmutiState>,
+          markReady: { move: unlessPaused(markReady), client: false } as Move<DalmutiState>,
+          ...pauseMoves,
         },
       },
     },
@@ -99,27 +137,35 @@ export const taxPhase: PhaseConfig<DalmutiState> = {
 // ---------------------------------------------------------------------------
 // Round-Over Phase
 // ---------------------------------------------------------------------------
-// Sits between playPhase and taxPhase. Displays round results for 15 seconds
-// then automatically advances. The room owner's client fires advanceRound()
-// after the countdown; all clients see the same results screen.
+// Sits between playPhase and taxPhase. Displays round results for
+// options.roundOverSeconds (15 s by default) then automatically advances.
+// The deadline lives in G so it is shared by every client and survives any
+// one browser going away: the server's round timer fires advanceRound()
+// when it passes, and any client may fire it too once it has.
 
 export const roundOverPhase: PhaseConfig<DalmutiState> = {
   start: false,
 
   next: 'tax',
 
-  // Ends as soon as the owner's 15-second timer fires advanceRound and sets
-  // G.roundOverDone. Using endIf (declarative) instead of events.endPhase()
+  onBegin: ({ G }) => {
+    G.roundOverDeadline = now() + G.options.roundOverSeconds * 1000;
+  },
+
+  // Ends as soon as advanceRound runs and sets G.roundOverDone.
+  // Using endIf (declarative) instead of events.endPhase()
   // (imperative, unreliable inside moves in boardgame.io 0.50.x).
   endIf: ({ G }) => G.roundOverDone ? true : undefined,
 
   moves: {
-    advanceRound: { move: advanceRound, client: false } as Move<DalmutiState>,
+    advanceRound: { move: unlessPaused(advanceRound), client: false } as Move<DalmutiState>,
+    ...pauseMoves,
   },
 
   turn: {
-    // Pin the active turn to player "0" (the room owner) so only their
-    // client needs to fire advanceRound after the 15-second countdown.
+    // Every player may fire advanceRound (it checks the deadline itself), so
+    // no single client is responsible for moving the match on.
+    activePlayers: ActivePlayers.ALL,
     // playOrder must be explicitly set here: the play phase leaves a
     // rank-sorted playOrder in ctx, and without overriding it first: () => 0
     // would give the Great Dalmuti (not player "0") as currentPlayer.
@@ -138,7 +184,7 @@ export const roundOverPhase: PhaseConfig<DalmutiState> = {
 // Standard trick-taking round. The active player plays a set of cards or passes.
 // Trick is won when all other active players pass in succession.
 // Round ends when all players have emptied their hands, then transitions to
-// the roundOver phase (15-second results screen) before the next tax phase.
+// the roundOver phase (results screen) before the next tax phase.
 
 export const playPhase: PhaseConfig<DalmutiState> = {
   start: false,
@@ -157,6 +203,7 @@ export const playPhase: PhaseConfig<DalmutiState> = {
   },
 
   onEnd: ({ G }) => {
+    G.turnDeadline = null;
     // The last player still holding cards when everyone else is done is
     // automatically the Greater Peon — they never got to finish naturally.
     const lastPlayer = Object.entries(G.players).find(([, p]) => !p.finished);
@@ -165,11 +212,15 @@ export const playPhase: PhaseConfig<DalmutiState> = {
       player.finished = true;
       player.finishPosition = G.finishOrder.length + 1;
       G.finishOrder.push(id);
+      logEvent(G, { type: 'playerFinished', playerID: id, position: player.finishPosition });
     }
     // Snapshot social ranks for next round's tax calculation
     G.finishOrder.forEach((playerID, index) => {
       G.players[playerID].socialRank = index + 1;
     });
+    const points = awardRoundPoints(G);
+    logEvent(G, { type: 'roundEnded', finishOrder: [...G.finishOrder], points });
+    // DalmutiGame.endIf checks the match length against these updated totals
     G.roundNumber += 1;
   },
 
@@ -184,8 +235,10 @@ export const playPhase: PhaseConfig<DalmutiState> = {
   next: 'roundOver',
 
   moves: {
-    playCards,
-    pass,
+    playCards: unlessPaused(playCards),
+    pass: unlessPaused(pass),
+    timeoutTurn: { move: unlessPaused(timeoutTurn), client: false } as Move<DalmutiState>,
+    ...pauseMoves,
   },
 
   turn: {
@@ -193,6 +246,13 @@ export const playPhase: PhaseConfig<DalmutiState> = {
     // boardgame.io then advances to the next player via order.next.
     moveLimit: 1,
 
+    // Everyone else waits in a stage that only offers the pause votes, so
+    // they can take part in a vote without being able to play out of turn.
+    activePlayers: { currentPlayer: Stage.NULL, others: 'waiting' },
+    stages: {
+      waiting: { moves: pauseMoves },
+    },
+
     // Only clear trick state when a new trick is genuinely starting.
     // pendingNewTrick is set by playCards/pass when the trick is detected as won.
     // Without this guard, onBegin would wipe currentTrick on every mid-trick
@@ -203,6 +263,10 @@ export const playPhase: PhaseConfig<DalmutiState> = {
         G.passedPlayers = [];
         G.pendingNewTrick = false;
       }
+      // Start this player's turn clock, if the match uses one
+      G.turnDeadline = G.options.turnSeconds !== null
+        ? now() + G.options.turnSeconds * 1000
+        : null;
     },
 
     // Trick is won when all active players except the last to play have passed.
@@ -0,0 +1,103 @@
+import { InitializeGame, CreateGameReducer, ProcessGameConfig } from 'boardgame.io/internal';
+import type { ActionShape, State } from 'boardgame.io';
+import type { DalmutiState, DalmutiSetupData } from './types';
+import { DalmutiGame } from './DalmutiGame';
+import { withClock } from './clock';
+
+// ---------------------------------------------------------------------------
+// Match replays
+// ---------------------------------------------------------------------------
+// A replay file holds everything needed to re-run a match from scratch: the
+// PRNG seed, the setupData house rules and every move in order. Re-running the
+// moves through DalmutiGame deals the same hands and reproduces every state.
+
+// Bump when the file format (or the game's rules) change incompatibly.
+export const REPLAY_VERSION = 1;
+
+export interface ReplayMove {
+  move: string;
+  args: unknown[];
+  playerID: string;
+}
+
+export interface MatchReplay {
+  version: typeof REPLAY_VERSION;
+  game: string;
+  matchID: string;
+  // ISO timestamp of the export, made after the match ended
+  exportedAt: string;
+  numPlayers: number;
+  seed: string | number;
+  setupData?: DalmutiSetupData;
+  // Seat names at export time
+  players: { id: number; name?: string }[];
+  moves: ReplayMove[];
+}
+
+/** One state of a replayed match and the move that produced it (null at the start). */
+export interface ReplayStep {
+  state: State<DalmutiState>;
+  move: ReplayMove | null;
+}
+
+// Simulated time between replayed moves. Longer than any turn or round-over
+// deadline, so deadline-gated moves succeed just as they did live.
+const REPLAY_MOVE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Check that parsed JSON is a replay this version of the game can play. */
+export function parseReplay(data: unknown): MatchReplay {
+  const replay = data as Partial<MatchReplay> | null;
+  if (typeof replay !== 'object' || replay === null) {
+    throw new Error('Not a replay file');
+  }
+  if (replay.game !== DalmutiGame.name) {
+    throw new Error(`Not a ${DalmutiGame.name} replay`);
+  }
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${String(replay.version)} (expected ${REPLAY_VERSION})`);
+  }
+  if (
+    typeof replay.numPlayers !== 'number'
+    || (typeof replay.seed !== 'string' && typeof replay.seed !== 'number')
+    || !Array.isArray(replay.players)
+    || !Array.isArray(replay.moves)
+  ) {
+    throw new Error('Replay file is incomplete');
+  }
+  return replay as MatchReplay;
+}
+
+/**
+ * Re-run a replay through DalmutiGame, returning the initial state followed by
+ * the state after each move. Throws if a move is rejected, which means the
+ * file does not match these game rules.
+ */
+export function buildReplaySteps(replay: MatchReplay): ReplayStep[] {
+  const game = ProcessGameConfig({ ...DalmutiGame, seed: replay.seed });
+  const reducer = CreateGameReducer({ game });
+
+  let time = Date.parse(replay.exportedAt) || 0;
+  return withClock(() => time, () => {
+    let state = InitializeGame({
+      game,
+      numPlayers: replay.numPlayers,
+      setupData: replay.setupData,
+    }) as State<DalmutiState>;
+    const steps: ReplayStep[] = [{ state, move: null }];
+
+    replay.moves.forEach((move, index) => {
+      time += REPLAY_MOVE_INTERVAL_MS;
+      const action: ActionShape.MakeMove = {
+        type: 'MAKE_MOVE',
+        payload: { type: move.move, args: move.args, playerID: move.playerID },
+      };
+      const next = reducer(state, action) as State<DalmutiState>;
+      if (next._stateID === state._stateID) {
+        throw new Error(`Move ${index + 1} (${move.move} by player ${move.playerID}) was rejected`);
+      }
+      state = next;
+      steps.push({ state, move });
+    });
+    return steps;
+  });
+}
@@ -0,0 +1,179 @@
+import type { Card, SoloJesterRule, Trick, TrickRank } from './types';
+
+// ---------------------------------------------------------------------------
+// Play rules
+// ---------------------------------------------------------------------------
+// Pure checks for what a player may play against the current trick. The
+// playCards move enforces them on the server, bots pick from getLegalPlays,
+// and Hand uses both to dim unplayable cards and explain a bad selection.
+//
+//  - All non-Jester cards in a play must share the same rank.
+//  - Jesters are wild alongside at least one natural card (they take its
+//    rank). Jesters played alone carry rank 13, weaker than any natural card,
+//    unless the "forbidden" house rule bans that — except to go out.
+//  - Against a trick, a play must use the same number of cards and have a
+//    lower (better) rank.
+
+/** Why a play was refused. */
+export type PlayRejection =
+  | 'empty'
+  | 'notInHand'
+  | 'mixedRanks'
+  | 'soloJesters'
+  | 'wrongCount'
+  | 'notBetter';
+
+export type PlayCheck =
+  | { ok: true; cards: Card[]; rank: TrickRank }
+  | { ok: false; reason: PlayRejection };
+
+/** A legal play: the card IDs and the trick rank they would form. */
+export interface LegalPlay {
+  cardIds: string[];
+  rank: TrickRank;
+  jesters: number;
+}
+
+/** Check whether the cards `cardIds` from `hand` may be played on `trick`. */
+export function validatePlay(
+  cardIds: string[],
+  hand: Card[],
+  trick: Trick | null,
+  soloJesters: SoloJesterRule,
+): PlayCheck {
+  if (!Array.isArray(cardIds) || cardIds.length === 0) return { ok: false, reason: 'empty' };
+
+  const cards: Card[] = [];
+  for (const id of new Set(cardIds)) {
+    const card = hand.find((c) => c.id === id);
+    if (!card) return { ok: false, reason: 'notInHand' };
+    cards.push(card);
+  }
+  if (cards.length !== cardIds.length) return { ok: false, reason: 'notInHand' };
+
+  const naturals = cards.filter((c) => c.rank !== 0);
+  if (new Set(naturals.map((c) => c.rank)).size > 1) return { ok: false, reason: 'mixedRanks' };
+  // Without this exception a hand of only Jesters could never lead
+  if (naturals.length === 0 && soloJesters === 'forbidden' && cards.length < hand.length) {
+    return { ok: false, reason: 'soloJesters' };
+  }
+  const rank: TrickRank = naturals.length > 0 ? naturals[0].rank : 13;
+
+  if (trick !== null) {
+    if (cards.length !== trick.count) return { ok: false, reason: 'wrongCount' };
+    // Lower rank number is better; 13 beats nothing
+    if (rank >= trick.rank) return { ok: false, reason: 'notBetter' };
+  }
+  return { ok: true, cards, rank };
+}
+
+/**
+ * Every legal play from a hand against the current trick. Only one
+ * representative play is produced per (rank, count, jesters) so the result
+ * stays small: naturals are always used before Jesters.
+ */
+export function getLegalPlays(hand: Card[], trick: Trick | null, soloJesters: SoloJesterRule): LegalPlay[] {
+  const jesters = hand.filter((c) => c.rank === 0);
+  const byRank = new Map<TrickRank, Card[]>();
+  for (const card of hand) {
+    if (card.rank === 0) continue;
+    const group = byRank.get(card.rank) ?? [];
+    group.push(card);
+    byRank.set(card.rank, group);
+  }
+
+  const plays: LegalPlay[] = [];
+  for (const [rank, cards] of byRank) {
+    if (trick !== null && rank >= trick.rank) continue;
+    for (let j = 0; j <= jesters.length; j++) {
+      const counts = trick !== null
+        ? [trick.count]
+        : Array.from({ length: cards.length }, (_, i) => i + 1 + j);
+      for (const count of counts) {
+        const naturals = count - j;
+        if (naturals < 1 || naturals > cards.length) continue;
+        plays.push({
+          cardIds: [...cards.slice(0, naturals), ...jesters.slice(0, j)].map((c) => c.id),
+          rank,
+          jesters: j,
+        });
+      }
+    }
+  }
+
+  // Jesters alone count as rank 13 and can only lead a trick.
+  if (trick === null && soloJesters === 'weakest') {
+    for (let count = 1; count <= jesters.length; count++) {
+      plays.push({ cardIds: jesters.slice(0, count).map((c) => c.id), rank: 13, jesters: count });
+    }
+  } else if (trick === null && jesters.length > 0 && jesters.length === hand.length) {
+    // Even when forbidden, a hand of only Jesters may go out in one lead.
+    plays.push({ cardIds: jesters.map((c) => c.id), rank: 13, jesters: jesters.length });
+  }
+  return plays;
+}
+
+/**
+ * IDs of the cards in `hand` that belong to at least one legal play. Cards
+ * of the same rank are interchangeable, so a rank used by any play marks
+ * every card of that rank.
+ */
+export function getPlayableCardIds(hand: Card[], trick: Trick | null, soloJesters: SoloJesterRule): Set<string> {
+  const ranks = new Set<number>();
+  for (const play of getLegalPlays(hand, trick, soloJesters)) {
+    if (play.rank !== 13) ranks.add(play.rank);
+    if (play.jesters > 0) ranks.add(0);
+  }
+  return new Set(hand.filter((c) => ranks.has(c.rank)).map((c) => c.id));
+}
+
+/**
+ * The weakest of the given plays: fewest Jesters, then the worst rank and,
+ * when leading, as many cards of it as possible. The easy bot always plays
+ * this; Hand offers it as a suggestion.
+ */
+export function getWeakestPlay(plays: LegalPlay[], leading: boolean): LegalPlay | null {
+  if (plays.length === 0) return null;
+  return [...plays].sort((a, b) => {
+    if (a.jesters !== b.jesters) return a.jesters - b.jesters;
+    if (a.rank !== b.rank) return b.rank - a.rank;
+    return leading ? b.cardIds.length - a.cardIds.length : 0;
+  })[0];
+}
+
+/**
+ * The cards to select when a player picks a whole rank group (rank 0 for the
+ * Jesters): exactly enough for the trick, or the whole group when leading.
+ * Jesters make up a shortfall only when `fillWithJesters` is set; otherwise
+ * the group falls short and validatePlay explains why.
+ */
+export function pickRankGroup(
+  hand: Card[],
+  rank: number,
+  trick: Trick | null,
+  fillWithJesters: boolean,
+): string[] {
+  const group = hand.filter((c) => c.rank === rank);
+  const needed = trick?.count ?? group.length;
+  const jesters = rank === 0 || !fillWithJesters ? [] : hand.filter((c) => c.rank === 0);
+  const shortfall = Math.max(0, needed - group.length);
+  return [...group.slice(0, needed), ...jesters.slice(0, shortfall)].map((c) => c.id);
+}
+
+/** A short explanation of a refused play, for the player who tried it. */
+export function describeRejection(reason: PlayRejection, trick: Trick | null): string {
+  switch (reason) {
+    case 'empty':
+      return 'Select the cards you want to play.';
+    case 'notInHand':
+      return 'Those cards are no longer in your hand.';
+    case 'mixedRanks':
+      return 'All cards must share one rank (Jesters are wild).';
+    case 'soloJesters':
+      return 'Jesters need a natural card alongside them, unless they are your last cards.';
+    case 'wrongCount':
+      return `Play exactly ${trick?.count} card${trick?.count === 1 ? '' : 's'} to match the trick.`;
+    case 'notBetter':
+      return `Your cards must beat ${trick?.rank === 13 ? 'the Jesters' : `rank ${trick?.rank}`} on the table.`;
+  }
+}
@@ -0,0 +1,52 @@
+import type { DalmutiState, DalmutiGameover, Standing } from './types';
+
+/**
+ * Points for finishing in `position` (1-based) out of `n` players, from the
+ * match's points table. Without a custom table: N-1 for going out first, down
+ * to 0 for the Greater Peon.
+ */
+export function pointsForPosition(position: number, n: number, table: number[] | null): number {
+  return table ? table[position - 1] ?? 0 : n - position;
+}
+
+/**
+ * Add this round's points to the running totals and return the points each
+ * player earned. Call once per completed round.
+ */
+export function awardRoundPoints(G: DalmutiState): Record<string, number> {
+  const n = G.finishOrder.length;
+  const earned: Record<string, number> = {};
+  G.finishOrder.forEach((id, index) => {
+    earned[id] = pointsForPosition(index + 1, n, G.options.pointsTable);
+    G.scores[id] = (G.scores[id] ?? 0) + earned[id];
+  });
+  return earned;
+}
+
+/** Players ordered by total score, ties broken by the latest social rank. */
+export function getStandings(G: DalmutiState): Standing[] {
+  return Object.keys(G.players)
+    .map((playerID) => ({ playerID, score: G.scores[playerID] ?? 0 }))
+    .sort((a, b) =>
+      b.score - a.score
+      || (G.players[a.playerID].socialRank ?? 0) - (G.players[b.playerID].socialRank ?? 0)
+    )
+    .map((entry, index) => ({ ...entry, position: index + 1 }));
+}
+
+/**
+ * Check the match length setting. Returns the gameover payload once it has
+ * been reached, otherwise undefined. Used as DalmutiGame.endIf.
+ */
+export function getMatchResult(G: DalmutiState): DalmutiGameover | undefined {
+  const length = G.options.matchLength;
+  const completedRounds = G.roundNumber - 1;
+
+  const over = length.type === 'rounds'
+    ? completedRounds >= length.rounds
+    : length.type === 'points'
+      ? Object.values(G.scores).some((score) => score >= length.target)
+      : false;
+
+  return over ? { standings: getStandings(G) } : undefined;
+}
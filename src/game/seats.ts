@@ -0,0 +1,42 @@
+// ---------------------------------------------------------------------------
+// Seat takeover
+// ---------------------------------------------------------------------------
+// When a player drops out of a game in progress, the server (server/seats.ts)
+// opens a vote on their seat once they have been gone long enough. A majority
+// of the remaining players hands the seat to a stand-in bot, which keeps the
+// same hand and rank. The seat stays up for grabs: the original player can
+// take it back by claiming it with their old credentials, or a newcomer can
+// claim it. Either way the claimant gets fresh credentials.
+//
+// Both states live in the seat's match metadata (`players[id].data`), next to
+// BotSeatData, so every client sees them through matchData.
+
+/** Stored in a seat's match metadata (`players[id].data`). */
+export interface TakeoverSeatData {
+  /** Present while the seat's player is away and may be replaced: who has voted so far. */
+  replaceVotes?: string[];
+  /** Set on a bot seat that took over from a human; anyone may claim it. */
+  standIn?: boolean;
+  /**
+   * On a stand-in seat: a salted hash of the away player's old credentials,
+   * which /claim checks to hand the seat back under their name. The bot plays
+   * with credentials of its own, so the old ones no longer drive the seat.
+   */
+  returnKey?: { salt: string; hash: string };
+}
+
+// Client-side matchData entries carry `data` even though their type omits it
+function takeoverData(seat: object | undefined): Partial<TakeoverSeatData> | undefined {
+  return (seat as { data?: Partial<TakeoverSeatData> } | undefined)?.data;
+}
+
+/** The votes to replace an away player, or null while their seat isn't up for a vote. */
+export function getReplaceVotes(seat: object | undefined): string[] | null {
+  const votes = takeoverData(seat)?.replaceVotes;
+  return Array.isArray(votes) ? votes : null;
+}
+
+/** Whether a bot is standing in for a human who may claim the seat back. */
+export function isStandIn(seat: object | undefined): boolean {
+  return takeoverData(seat)?.standIn === true;
+}
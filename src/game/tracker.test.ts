@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { tallyCards } from './tracker';
+import type { Card, CardRank, GameEvent } from './types';
+
+const card = (rank: CardRank, n = 0): Card => ({ rank, id: `${rank}-${n}` });
+const jesters = (tallies: ReturnType<typeof tallyCards>) => tallies.find((t) => t.rank === 0)!;
+
+describe('tallyCards', () => {
+  it('counts the Jesters spent on a revolution this round', () => {
+    const eventLog: GameEvent[] = [
+      { type: 'revolution', playerID: '3', greater: false, round: 2 },
+      { type: 'play', playerID: '0', cards: [card(5), card(5, 1)], rank: 5, count: 2, round: 2 },
+    ];
+
+    expect(jesters(tallyCards(eventLog, 2, []))).toMatchObject({ played: 2, out: 0 });
+    expect(tallyCards(eventLog, 2, []).find((t) => t.rank === 5)).toMatchObject({ played: 2, out: 3 });
+  });
+
+  it("ignores an earlier round's revolution", () => {
+    const eventLog: GameEvent[] = [{ type: 'revolution', playerID: '3', greater: true, round: 1 }];
+    expect(jesters(tallyCards(eventLog, 2, [card(0)]))).toMatchObject({ played: 0, mine: 1, out: 1 });
+  });
+});
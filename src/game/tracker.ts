@@ -0,0 +1,52 @@
+import type { Card, CardRank, GameEvent } from './types';
+
+// ---------------------------------------------------------------------------
+// Card tracker
+// ---------------------------------------------------------------------------
+// The deck is public knowledge (buildDeck): rank N has N copies, plus two
+// Jesters. Taking away what has been played this round (including the two
+// Jesters shown and spent to declare a revolution) and what the viewer
+// holds leaves the cards the opponents may still have. Tax exchanges stay
+// out of it: they are private, and the viewer's own hand already reflects
+// anything they received.
+
+/** One rank's count for the card tracker. */
+export interface RankTally {
+  rank: CardRank;
+  /** Copies in the deck. */
+  total: number;
+  /** Played face up so far this round, or spent on a revolution. */
+  played: number;
+  /** In the viewer's hand. */
+  mine: number;
+  /** Neither played nor in the viewer's hand: somewhere among the opponents. */
+  out: number;
+}
+
+/** Copies of `rank` in the deck; rank 0 is the Jesters. */
+export function deckCount(rank: CardRank): number {
+  return rank === 0 ? 2 : rank;
+}
+
+/**
+ * Tally every rank, best first with the Jesters last, from `round`'s plays
+ * and revolutions in the event log and the viewer's `hand`.
+ */
+export function tallyCards(eventLog: GameEvent[], round: number, hand: Card[]): RankTally[] {
+  const played = new Map<number, number>();
+  for (const event of eventLog) {
+    if (event.round !== round) continue;
+    if (event.type === 'play') {
+      for (const card of event.cards) played.set(card.rank, (played.get(card.rank) ?? 0) + 1);
+    } else if (event.type === 'revolution') {
+      played.set(0, (played.get(0) ?? 0) + deckCount(0));
+    }
+  }
+  const ranks = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 0] as CardRank[];
+  return ranks.map((rank) => {
+    const total = deckCount(rank);
+    const p = played.get(rank) ?? 0;
+    const mine = hand.filter((c) => c.rank === rank).length;
+    return { rank, total, played: p, mine, out: Math.max(0, total - p - mine) };
+  });
+}
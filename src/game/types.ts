@@ -37,6 +37,20 @@ export interface TaxDebt {
   offeredCards: Card[];
 }
 
+// A vote to pause (or resume) the match; see requestPause in moves.ts.
+export interface PauseVote {
+  action: 'pause' | 'resume';
+  // Player who called the vote; they may withdraw it
+  requestedBy: string;
+  // PlayerIDs for and against; a majority of the seats that have not
+  // abstained decides. Bots abstain, so only human seats count.
+  yes: string[];
+  no: string[];
+  abstained: string[];
+  // Server clock time the vote lapses at if still undecided
+  deadline: number;
+}
+
 export interface Trick {
   cards: Card[];
   // The rank these cards represent. Jokers paired with other cards use the non-Joker rank;
@@ -48,7 +62,98 @@ export interface Trick {
   playedBy: string;
 }
 
+// How Jesters played without any natural card are treated.
+//   weakest   → they form a trick of rank 13, beaten by anything
+//   forbidden → Jesters may only be played alongside a natural card, or
+//               all together as a player's last cards
+export type SoloJesterRule = 'weakest' | 'forbidden';
+
+// When the match ends.
+//   endless → rounds loop until the players leave (the original behaviour)
+//   rounds  → after a fixed number of completed rounds
+//   points  → after the round in which someone reaches `target` points
+export type MatchLength =
+  | { type: 'endless' }
+  | { type: 'rounds'; rounds: number }
+  | { type: 'points'; target: number };
+
+// House rules chosen when the match is created. Fixed for the whole match.
+export interface MatchOptions {
+  // Cards the Greater Peon pays the Great Dalmuti each round
+  greatTax: number;
+  // Cards the Lesser Peon pays the Lesser Dalmuti each round
+  lesserTax: number;
+  soloJesters: SoloJesterRule;
+  // Whether a player holding both Jesters may declare a Revolution
+  revolutions: boolean;
+  // How long the round-over results screen stays up before the next round
+  roundOverSeconds: number;
+  matchLength: MatchLength;
+  // Seconds each player gets per turn in the play phase; null = no clock.
+  // When it runs out the server passes for them (or plays their worst
+  // single card if they are leading and cannot pass).
+  turnSeconds: number | null;
+  // Points per finish position, first out to last. null = the standard
+  // table: N-1 points for first down to 0 for the Greater Peon.
+  pointsTable: number[] | null;
+  // Whether spectators see every hand, e.g. for streaming or teaching.
+  // Otherwise they get hand counts only and no tax cards.
+  spectatorsSeeHands: boolean;
+}
+
+// setupData accepted by createMatch. Omitted options fall back to the defaults.
+export type DalmutiSetupData = Partial<MatchOptions>;
+
+export interface Standing {
+  playerID: string;
+  score: number;
+  // 1 = match winner. Tied scores are split by the final round's finish order.
+  position: number;
+}
+
+// ctx.gameover payload once the match length is reached.
+export interface DalmutiGameover {
+  standings: Standing[];
+}
+
+// One entry in the match's event log (DalmutiState.eventLog), newest last.
+// Written by the moves and phase hooks via logEvent (events.ts); cards that
+// only some players may see are redacted per player in playerView.
+export type GameEventData =
+  // Lobby → first round: seats drawn and initial ranks (finishOrder) dealt out
+  | { type: 'matchStarted'; seatOrder: string[]; initialOrder: string[] }
+  // Fresh hands dealt for `round` (by startGame, then advanceRound)
+  | { type: 'roundStarted' }
+  | { type: 'revolution'; playerID: string; greater: boolean }
+  // A completed tax exchange. taxCards went payer → receiver, returnedCards
+  // receiver → payer; both are emptied for everyone else by playerView.
+  | {
+      type: 'taxExchanged';
+      fromPlayerID: string;
+      toPlayerID: string;
+      count: number;
+      taxCards: Card[];
+      returnedCards: Card[];
+    }
+  | { type: 'play'; playerID: string; cards: Card[]; rank: TrickRank; count: number }
+  | { type: 'pass'; playerID: string }
+  // The turn clock ran out; followed by the pass or play made for them
+  | { type: 'turnTimedOut'; playerID: string }
+  // Everyone else passed on playerID's play
+  | { type: 'trickWon'; playerID: string }
+  | { type: 'playerFinished'; playerID: string; position: number }
+  // Points earned this round, keyed by playerID
+  | { type: 'roundEnded'; finishOrder: string[]; points: Record<string, number> };
+
+export type GameEvent = GameEventData & {
+  // G.roundNumber when the event happened
+  round: number;
+};
+
 export interface DalmutiState {
+  // House rules for this match, resolved from setupData at setup time.
+  options: MatchOptions;
+
   // Keyed by playerID string ("0", "1", ...).
   // Each client only sees its own full hand; others have hand: [].
   players: Record<string, PlayerState>;
@@ -72,17 +177,38 @@ export interface DalmutiState {
   // Display counter
   roundNumber: number;
 
+  // Running point totals across all completed rounds, keyed by playerID.
+  // Updated by playPhase.onEnd; drives points-based match length.
+  scores: Record<string, number>;
+
   // Revolution state for the current round (cleared at the start of each tax phase).
   // revolutionDeclaredBy: the playerID who called it, or null if no revolution.
   // isGreaterRevolution: true when the Greater Peon called it (ranks are inverted).
   revolutionDeclaredBy: string | null;
   isGreaterRevolution: boolean;
 
-  // Randomized seat order set by the owner when starting the game.
-  // Populated in the lobby phase; used as the play order for all subsequent phases.
+  // Append-only history of the match: plays, passes, trick wins, tax
+  // exchanges, revolutions and round results. See GameEventData.
+  eventLog: GameEvent[];
+
+  // Player who runs the waiting room: starts the game, kicks players and
+  // picks the seating. The match creator (seat "0") until handed on.
+  ownerID: string;
+
+  // Seating the owner arranged in the lobby, or null to draw it at random
+  // when the game starts.
+  plannedSeatOrder: string[] | null;
+
+  // Seat order fixed when the owner starts the game (plannedSeatOrder, or
+  // drawn at random). Used as the play order for all subsequent phases.
   // Empty array means the game hasn't started yet (lobby phase is active).
   seatOrder: string[];
 
+  // Server clock time (ms since epoch) at which the current play-phase turn
+  // times out. Set by playPhase.turn.onBegin when options.turnSeconds is on;
+  // null otherwise. The server fires timeoutTurn when it passes.
+  turnDeadline: number | null;
+
   // Set to true by playCards/pass when the current trick is detected as won.
   // turn.onBegin reads this flag to know whether to clear currentTrick and
   // passedPlayers before the next trick leader's turn. Without this, onBegin
@@ -95,8 +221,22 @@ export interface DalmutiState {
   // seen — even in round 1 where there is no actual taxation.
   readyPlayers: string[];
 
+  // Server clock time (ms since epoch) at which the round-over screen ends.
+  // Set by roundOverPhase.onBegin, null outside that phase. The server's
+  // round timer fires advanceRound at this time; any client may also fire it
+  // once the deadline has passed, and every countdown is derived from it.
+  roundOverDeadline: number | null;
+
   // Set to true by advanceRound; watched by roundOverPhase.endIf.
   // Avoids relying on events.endPhase() from inside a move, which is
   // unreliable in boardgame.io 0.50.x.
   roundOverDone: boolean;
+
+  // Server clock time the match was paused at, or null while it runs.
+  // Every move but the pause votes is rejected while paused, and resuming
+  // pushes turnDeadline and roundOverDeadline back by the time spent paused.
+  pausedAt: number | null;
+
+  // The pause or resume vote in progress, if any.
+  pauseVote: PauseVote | null;
 }